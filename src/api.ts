@@ -0,0 +1,406 @@
+/**
+ * Page-context SDK for LLM Control Panel
+ * Injected by the content script and exposed as `window.llmControlPanel` (`window.llmCtl` is kept as an alias).
+ * Every call is a `llm-control-panel-request` window message correlated with its response by request id.
+ */
+import type { SamplingOptions } from './core/providers/sampler';
+import type { ContextOptions } from './core/providers/context-window';
+import type { GenerationResult } from './core/providers/decode-loop';
+import type { ChatMessage } from './core/providers/chat-template';
+import type { ModelMeta, StorageStats } from './core/utils/fetchchunkstore';
+import type { ModelConfig } from './core/utils/model.list';
+import type { WebNNDevice } from './core/utils/webnn-utils';
+import type { Permission } from './core/utils/permissions';
+
+type RequestAction =
+  | 'ping'
+  | 'generate-response'
+  | 'cancel-generation'
+  | 'test-model'
+  | 'load-model'
+  | 'unload-model'
+  | 'download-model'
+  | 'get-available-models'
+  | 'get-available-providers'
+  | 'get-webnn-devices'
+  | 'get-preferred-webnn-device'
+  | 'get-cache-stats'
+  | 'get-cached-models'
+  | 'clear-all-cached-models'
+  | 'cleanup-old-cached-models'
+  | 'approval-request'
+  | 'check-app-approval';
+
+export type LLMControlPanelErrorCode =
+  | 'unavailable'
+  | 'timeout'
+  | 'invalid-argument'
+  | 'not-approved'
+  | 'permission-denied'
+  | 'cancelled'
+  | 'request-failed';
+
+class LLMControlPanelError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LLMControlPanelErrorCode,
+    public readonly action?: RequestAction
+  ) {
+    super(message);
+    this.name = 'LLMControlPanelError';
+  }
+}
+
+export interface RequestOptions {
+  // Milliseconds without a response (or streamed token) before the request fails; defaults to 30s
+  timeoutMs?: number;
+}
+
+export interface GenerateOptions extends SamplingOptions, ContextOptions, RequestOptions {
+  // Called for every streamed piece of the completion with the text generated so far
+  onToken?: (token: string, text: string) => void;
+  // Called with the 1-based queue position while the request waits for the model, then 0 when it starts
+  onQueuePosition?: (position: number) => void;
+  // Id to cancel the request with via `cancelGeneration`; generated when omitted
+  requestId?: string;
+  // Aborting stops the generation; a running one resolves with the partial text and finish reason `cancelled`
+  signal?: AbortSignal;
+}
+
+export interface AppInfo {
+  name: string;
+  stringKey: string; // all lower case - no whitespace
+  description?: string;
+  // e.g. ['generate', 'stream', 'specific-model:Xenova/TinyLlama-1.1B-Chat-v1.0', 'max-tokens:256']
+  requestedPermissions?: Permission[];
+}
+
+export interface AvailableModel extends ModelConfig {
+  isDownloaded: boolean;
+  isSelected: boolean;
+  isLoaded: boolean;
+}
+
+interface PageResponseMessage {
+  type: 'llm-control-panel-response';
+  id: string;
+  success: boolean;
+  response?: unknown;
+  error?: string;
+  code?: LLMControlPanelErrorCode;
+}
+
+interface PageStreamMessage {
+  type: 'llm-control-panel-stream';
+  id: string;
+  token: string;
+  text: string;
+}
+
+interface PageQueueMessage {
+  type: 'llm-control-panel-queue';
+  id: string;
+  position: number;
+}
+
+interface PageKeepAliveMessage {
+  type: 'llm-control-panel-keepalive';
+  id: string;
+}
+
+interface StreamCallbacks {
+  onToken?: (token: string, text: string) => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const READY_ATTEMPTS = 10;
+
+const createRequestId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+class LLMControlPanelClient extends EventTarget {
+  readonly ready: Promise<void>;
+
+  constructor() {
+    super();
+    this.ready = this.waitUntilReady();
+    // Callers that never await `ready` should not see an unhandled rejection
+    this.ready.catch(() => undefined);
+  }
+
+  /**
+   * Generate a completion for the prompt
+   * @param prompt The input text
+   * @param modelId Model to use (optional, the selected model is used otherwise)
+   * @param options Sampling options, `onToken` for streaming and `timeoutMs`
+   */
+  async generateResponse(prompt: string, modelId?: string, options: GenerateOptions = {}): Promise<string> {
+    const result = await this.generate(prompt, modelId, options);
+    return result.text;
+  }
+
+  /**
+   * Same as `generateResponse`, but resolves with the finish reason and token count as well
+   */
+  async generate(prompt: string, modelId?: string, options: GenerateOptions = {}): Promise<GenerationResult> {
+    if (typeof prompt !== 'string' || prompt.length === 0) {
+      throw new LLMControlPanelError('Prompt must be a non-empty string', 'invalid-argument', 'generate-response');
+    }
+    return this.runGeneration({ prompt, modelId }, options);
+  }
+
+  /**
+   * Continue a conversation. The messages are rendered with the model's chat template,
+   * so chat-tuned models see the system prompt, roles and history they were trained on
+   * @param messages `{ role: 'system' | 'user' | 'assistant', content }` in order, usually ending with a user turn
+   * @param modelId Model to use (optional, the selected model is used otherwise)
+   * @param options Same as `generate`
+   */
+  async chat(messages: ChatMessage[], modelId?: string, options: GenerateOptions = {}): Promise<GenerationResult> {
+    const valid = Array.isArray(messages) && messages.length > 0 &&
+      messages.every(m => m && ['system', 'user', 'assistant'].includes(m.role) && typeof m.content === 'string');
+    if (!valid) {
+      throw new LLMControlPanelError('Messages must be a non-empty array of { role, content }', 'invalid-argument', 'generate-response');
+    }
+    return this.runGeneration({ messages, modelId }, options);
+  }
+
+  private async runGeneration(input: Record<string, unknown>, options: GenerateOptions): Promise<GenerationResult> {
+    const { onToken, onQueuePosition, timeoutMs, requestId = createRequestId(), signal, ...sampling } = options;
+    if (signal?.aborted) {
+      throw new LLMControlPanelError('Generation was cancelled', 'cancelled', 'generate-response');
+    }
+
+    const onAbort = () => {
+      this.cancelGeneration(requestId).catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await this.sendRequest<GenerationResult>(
+        'generate-response',
+        { ...input, options: sampling },
+        { timeoutMs },
+        { onToken, onQueuePosition },
+        requestId
+      );
+    } catch (error) {
+      // Giving up on the response does not stop the generation; cancel it so it does not hold the model
+      if (error instanceof LLMControlPanelError && error.code === 'timeout') {
+        this.cancelGeneration(requestId).catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Stop a generation started from this page. A queued request rejects with code `cancelled`,
+   * a running one resolves with the text generated so far and finish reason `cancelled`
+   * @returns Whether a matching generation was found
+   */
+  async cancelGeneration(requestId: string): Promise<boolean> {
+    const { cancelled } = await this.sendRequest<{ cancelled: boolean }>('cancel-generation', { requestId });
+    return cancelled;
+  }
+
+  async testModel(modelId: string, message: string, options?: RequestOptions): Promise<GenerationResult> {
+    return this.sendRequest<GenerationResult>('test-model', { modelId, message }, options);
+  }
+
+  // `useWorker` is accepted for compatibility; the extension decides where the model runs
+  async loadModel(modelId: string, useWorker = false, options?: RequestOptions): Promise<{ modelId: string; provider: string | null }> {
+    return this.sendRequest('load-model', { modelId, useWorker }, options);
+  }
+
+  async unloadModel(modelId: string, useWorker = false, options?: RequestOptions): Promise<void> {
+    return this.sendRequest('unload-model', { modelId, useWorker }, options);
+  }
+
+  /**
+   * Download a model the user has already configured; needs the `download-model` permission
+   */
+  async downloadModel(modelId: string, options?: RequestOptions): Promise<void> {
+    return this.sendRequest('download-model', { modelId }, { timeoutMs: 10 * 60 * 1000, ...options });
+  }
+
+  async getAvailableModels(): Promise<AvailableModel[]> {
+    return this.sendRequest('get-available-models');
+  }
+
+  async getAvailableProviders(): Promise<string[]> {
+    return this.sendRequest('get-available-providers');
+  }
+
+  async getWebNNDevices(): Promise<WebNNDevice[]> {
+    return this.sendRequest('get-webnn-devices');
+  }
+
+  async getPreferredWebNNDevice(): Promise<WebNNDevice | null> {
+    return this.sendRequest('get-preferred-webnn-device');
+  }
+
+  async getCacheStats(): Promise<StorageStats> {
+    return this.sendRequest('get-cache-stats');
+  }
+
+  // Stored entries; external data files show up as `<modelId>_external`
+  async getCachedModels(): Promise<ModelMeta[]> {
+    return this.sendRequest('get-cached-models');
+  }
+
+  async clearAllCachedModels(): Promise<{ removed: string[] }> {
+    return this.sendRequest('clear-all-cached-models');
+  }
+
+  /**
+   * Remove models stored longer ago than `maxAge`
+   * @param maxAge Age in milliseconds
+   */
+  async cleanupOldCachedModels(maxAge: number): Promise<{ removed: string[] }> {
+    return this.sendRequest('cleanup-old-cached-models', { maxAge });
+  }
+
+  /**
+   * Request approval for 3rd party app access
+   * @param appInfo Must have a name & string key (all lower case - no whitespace)
+   *   All other keys are optional {description | requestedPermissions}
+   */
+  async requestApproval(appInfo: AppInfo): Promise<{ requestId: string }> {
+    if (!appInfo || !appInfo.name || !appInfo.stringKey) {
+      throw new LLMControlPanelError('App info with name and stringKey is required', 'invalid-argument', 'approval-request');
+    }
+
+    // Set default permissions if not provided
+    const defaultPermissions: Permission[] = ['list-models', 'generate', 'stream'];
+    const fullAppInfo = {
+      name: appInfo.name,
+      origin: window.location.origin,
+      description: appInfo.description || `Access request from ${appInfo.name}`,
+      requestedPermissions: appInfo.requestedPermissions || defaultPermissions
+    };
+
+    return this.sendRequest('approval-request', { appInfo: fullAppInfo });
+  }
+
+  // Check if current app is approved
+  async checkApprovalStatus(): Promise<{ approved: boolean }> {
+    return this.sendRequest('check-app-approval', { origin: window.location.origin });
+  }
+
+  // Check if extension is available
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.sendRequest('ping', {}, { timeoutMs: 2000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Generic request method
+  sendRequest<T = unknown>(
+    action: RequestAction,
+    data: Record<string, unknown> = {},
+    options: RequestOptions = {},
+    callbacks: StreamCallbacks = {},
+    id = createRequestId()
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      // The content script injects this file, so its tag disappears when the extension context is gone
+      if (!document.querySelector('script[src*="api.js"]')) {
+        reject(new LLMControlPanelError(
+          'Extension context invalidated. Please reload the extension and refresh this page.',
+          'unavailable',
+          action
+        ));
+        return;
+      }
+
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        window.removeEventListener('message', listener);
+      };
+
+      const armTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => {
+          cleanup();
+          reject(new LLMControlPanelError('Request timeout. Extension may not be responding.', 'timeout', action));
+        }, timeoutMs);
+      };
+
+      const listener = (event: MessageEvent<PageResponseMessage | PageStreamMessage | PageQueueMessage | PageKeepAliveMessage>) => {
+        if (event.source !== window || !event.data || event.data.id !== id) return;
+
+        if (event.data.type === 'llm-control-panel-stream') {
+          // Streaming keeps the request alive
+          armTimeout();
+          callbacks.onToken?.(event.data.token, event.data.text);
+          return;
+        }
+
+        if (event.data.type === 'llm-control-panel-queue') {
+          // So does moving up the queue
+          armTimeout();
+          callbacks.onQueuePosition?.(event.data.position);
+          return;
+        }
+
+        if (event.data.type === 'llm-control-panel-keepalive') {
+          // And the extension still working on it, e.g. loading the model
+          armTimeout();
+          return;
+        }
+
+        if (event.data.type === 'llm-control-panel-response') {
+          cleanup();
+          if (event.data.success) {
+            resolve(event.data.response as T);
+          } else {
+            reject(new LLMControlPanelError(
+              event.data.error || 'Request failed',
+              event.data.code || 'request-failed',
+              action
+            ));
+          }
+        }
+      };
+
+      window.addEventListener('message', listener);
+      armTimeout();
+      window.postMessage({ type: 'llm-control-panel-request', action, data, id }, '*');
+    });
+  }
+
+  // Resolves once the content script answers a ping, then fires `ready`
+  private async waitUntilReady(): Promise<void> {
+    for (let attempt = 0; attempt < READY_ATTEMPTS; attempt++) {
+      if (await this.isAvailable()) {
+        this.dispatchEvent(new Event('ready'));
+        window.dispatchEvent(new CustomEvent('llmControlPanelReady'));
+        return;
+      }
+    }
+    throw new LLMControlPanelError('Extension did not respond', 'unavailable', 'ping');
+  }
+}
+
+declare global {
+  interface Window {
+    llmControlPanel: LLMControlPanelClient;
+    llmCtl: LLMControlPanelClient;
+    LLMControlPanelError: typeof LLMControlPanelError;
+  }
+}
+
+const client = new LLMControlPanelClient();
+window.llmControlPanel = client;
+window.llmCtl = client;
+window.LLMControlPanelError = LLMControlPanelError;
@@ -0,0 +1,191 @@
+/**
+ * Queue of model downloads run by the service worker
+ * Downloads run one at a time in the order they were requested. Each can be paused (the chunks it
+ * stored are kept and it resumes with a Range request) or cancelled (the caller drops the data).
+ * The queue is handed to `onChange` on every change so it can be persisted; after a service worker
+ * restart `restore` puts interrupted downloads back in line
+ */
+
+export type DownloadState = 'queued' | 'downloading' | 'paused';
+
+export interface DownloadEntry {
+  modelId: string;
+  state: DownloadState;
+  enqueuedAt: number;
+  // Why the last attempt stopped, when it failed rather than being paused
+  error?: string;
+}
+
+// How a download ended for whoever waited on it
+export type DownloadOutcome = 'completed' | 'paused' | 'cancelled';
+
+export interface DownloadManagerOptions {
+  // Downloads and stores one model; `signal` aborts on pause or cancel
+  run: (modelId: string, signal: AbortSignal) => Promise<void>;
+  onChange?: (downloads: DownloadEntry[]) => void;
+  maxConcurrent?: number;
+}
+
+interface Waiter {
+  resolve: (outcome: DownloadOutcome) => void;
+  reject: (reason: unknown) => void;
+}
+
+export class DownloadManager {
+  private entries = new Map<string, DownloadEntry>();
+  private controllers = new Map<string, AbortController>();
+  // Settles when the running attempt has unwound, so its data can be deleted safely
+  private runs = new Map<string, Promise<void>>();
+  // What an abort was for, read when the run rejects
+  private stopping = new Map<string, 'paused' | 'cancelled'>();
+  private waiters = new Map<string, Waiter[]>();
+
+  constructor(private options: DownloadManagerOptions) {}
+
+  /**
+   * Queue a download, or resume a paused one. Resolves when it completes, is paused or is cancelled;
+   * rejects when the download fails
+   */
+  enqueue(modelId: string): Promise<DownloadOutcome> {
+    const outcome = new Promise<DownloadOutcome>((resolve, reject) => {
+      this.waiters.set(modelId, [...(this.waiters.get(modelId) ?? []), { resolve, reject }]);
+    });
+    const entry = this.entries.get(modelId);
+    if (!entry) {
+      this.entries.set(modelId, { modelId, state: 'queued', enqueuedAt: Date.now() });
+    } else if (entry.state === 'paused') {
+      this.entries.set(modelId, { modelId, state: 'queued', enqueuedAt: entry.enqueuedAt });
+    }
+    this.changed();
+    this.drain();
+    return outcome;
+  }
+
+  // Put a paused download back in line without waiting for it
+  resume(modelId: string): boolean {
+    if (this.entries.get(modelId)?.state !== 'paused') return false;
+    this.enqueue(modelId).catch(() => {
+      // failures are recorded on the entry
+    });
+    return true;
+  }
+
+  /**
+   * Stop a download and keep what it stored. Resolves once a running attempt has stopped;
+   * false when the model is not queued or running
+   */
+  async pause(modelId: string): Promise<boolean> {
+    const entry = this.entries.get(modelId);
+    if (!entry || entry.state === 'paused') return false;
+    this.entries.set(modelId, { modelId, state: 'paused', enqueuedAt: entry.enqueuedAt });
+    await this.stop(modelId, 'paused');
+    this.changed();
+    return true;
+  }
+
+  /**
+   * Drop a download from the queue, stopping it if it runs. Resolves once nothing writes the
+   * model's data anymore; false when the model had no download
+   */
+  async cancel(modelId: string): Promise<boolean> {
+    if (!this.entries.delete(modelId)) return false;
+    await this.stop(modelId, 'cancelled');
+    this.changed();
+    return true;
+  }
+
+  async cancelAll(): Promise<void> {
+    await Promise.all(Array.from(this.entries.keys()).map(modelId => this.cancel(modelId)));
+  }
+
+  /**
+   * Load a persisted queue. Downloads that were running when the worker stopped are queued again
+   */
+  restore(entries: DownloadEntry[]): void {
+    for (const entry of entries) {
+      if (this.entries.has(entry.modelId)) continue;
+      this.entries.set(entry.modelId, {
+        ...entry,
+        state: entry.state === 'paused' ? 'paused' : 'queued'
+      });
+    }
+    this.changed();
+    this.drain();
+  }
+
+  get(modelId: string): DownloadEntry | undefined {
+    return this.entries.get(modelId);
+  }
+
+  list(): DownloadEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  private async stop(modelId: string, reason: 'paused' | 'cancelled'): Promise<void> {
+    const controller = this.controllers.get(modelId);
+    if (controller) {
+      this.stopping.set(modelId, reason);
+      controller.abort();
+      await this.runs.get(modelId);
+    } else {
+      this.settle(modelId, waiter => waiter.resolve(reason));
+    }
+  }
+
+  private drain(): void {
+    const maxConcurrent = this.options.maxConcurrent ?? 1;
+    const queued = this.list()
+      .filter(entry => entry.state === 'queued')
+      .sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+    for (const entry of queued) {
+      if (this.controllers.size >= maxConcurrent) break;
+      this.start(entry);
+    }
+  }
+
+  private start(entry: DownloadEntry): void {
+    const { modelId } = entry;
+    const controller = new AbortController();
+    this.controllers.set(modelId, controller);
+    this.entries.set(modelId, { modelId, state: 'downloading', enqueuedAt: entry.enqueuedAt });
+    this.changed();
+
+    const run = this.options.run(modelId, controller.signal)
+      .then(() => {
+        this.entries.delete(modelId);
+        this.settle(modelId, waiter => waiter.resolve('completed'));
+      }, (error) => {
+        const reason = this.stopping.get(modelId);
+        if (reason) {
+          this.settle(modelId, waiter => waiter.resolve(reason));
+          return;
+        }
+        // Kept as paused, so the stored chunks can be resumed once the cause is fixed
+        this.entries.set(modelId, {
+          modelId,
+          state: 'paused',
+          enqueuedAt: entry.enqueuedAt,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        this.settle(modelId, waiter => waiter.reject(error));
+      })
+      .finally(() => {
+        this.controllers.delete(modelId);
+        this.runs.delete(modelId);
+        this.stopping.delete(modelId);
+        this.changed();
+        this.drain();
+      });
+    this.runs.set(modelId, run);
+  }
+
+  private settle(modelId: string, notify: (waiter: Waiter) => void): void {
+    const waiters = this.waiters.get(modelId) ?? [];
+    this.waiters.delete(modelId);
+    waiters.forEach(notify);
+  }
+
+  private changed(): void {
+    this.options.onChange?.(this.list());
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Queue in front of the inference engine
+ * Jobs are grouped per model; each model runs at most `maxConcurrencyPerModel` jobs at once.
+ * The next job is the highest priority one, ties go to the app served least recently (so one busy
+ * tab cannot starve the others) and then to the oldest job
+ */
+
+export interface GenerationJobOptions<T> {
+  id: string;
+  // Who the job is for (page origin, or 'extension'), used for fairness
+  appKey: string;
+  modelId: string;
+  // Higher runs first; defaults to 0
+  priority?: number;
+  // `signal` aborts when the job is cancelled after it started
+  run: (signal: AbortSignal) => Promise<T>;
+  // 1-based position while queued, 0 once the job starts
+  onQueuePosition?: (position: number) => void;
+}
+
+export interface QueuedJobInfo {
+  id: string;
+  appKey: string;
+  modelId: string;
+  priority: number;
+  position: number;
+  enqueuedAt: number;
+}
+
+export class GenerationCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Generation ${jobId} was cancelled`);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+interface QueuedJob {
+  options: GenerationJobOptions<unknown>;
+  priority: number;
+  enqueuedAt: number;
+  sequence: number;
+  lastPosition?: number;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+export class GenerationScheduler {
+  private queues = new Map<string, QueuedJob[]>();
+  private running = new Map<string, Set<string>>();
+  private controllers = new Map<string, AbortController>();
+  private lastServed = new Map<string, number>();
+  private sequence = 0;
+
+  constructor(private maxConcurrencyPerModel = 1) {}
+
+  schedule<T>(options: GenerationJobOptions<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(options.modelId) ?? [];
+      queue.push({
+        options: options as GenerationJobOptions<unknown>,
+        priority: options.priority ?? 0,
+        enqueuedAt: Date.now(),
+        sequence: this.sequence++,
+        resolve: resolve as (value: unknown) => void,
+        reject
+      });
+      this.queues.set(options.modelId, queue);
+      this.drain(options.modelId);
+    });
+  }
+
+  /**
+   * Cancel a job. Queued jobs are dropped and their promise rejects with GenerationCancelledError;
+   * running jobs have their signal aborted and settle however `run` handles it.
+   * Returns false when the job is unknown
+   */
+  cancel(jobId: string): boolean {
+    const controller = this.controllers.get(jobId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+    for (const [modelId, queue] of this.queues) {
+      const index = queue.findIndex(job => job.options.id === jobId);
+      if (index === -1) continue;
+      const [job] = queue.splice(index, 1);
+      job.reject(new GenerationCancelledError(jobId));
+      if (queue.length === 0) this.queues.delete(modelId);
+      this.notifyPositions(modelId);
+      return true;
+    }
+    return false;
+  }
+
+  isRunning(jobId: string): boolean {
+    return Array.from(this.running.values()).some(ids => ids.has(jobId));
+  }
+
+  // Whether the model has any job running or waiting
+  hasJobs(modelId: string): boolean {
+    return (this.running.get(modelId)?.size ?? 0) > 0 || (this.queues.get(modelId)?.length ?? 0) > 0;
+  }
+
+  getQueue(): QueuedJobInfo[] {
+    const jobs: QueuedJobInfo[] = [];
+    for (const [modelId, queue] of this.queues) {
+      this.order(queue).forEach((job, index) => jobs.push({
+        id: job.options.id,
+        appKey: job.options.appKey,
+        modelId,
+        priority: job.priority,
+        position: index + 1,
+        enqueuedAt: job.enqueuedAt
+      }));
+    }
+    return jobs;
+  }
+
+  private drain(modelId: string): void {
+    const queue = this.queues.get(modelId);
+    const running = this.running.get(modelId) ?? new Set<string>();
+    this.running.set(modelId, running);
+
+    while (queue && queue.length > 0 && running.size < this.maxConcurrencyPerModel) {
+      const job = this.pick(queue);
+      queue.splice(queue.indexOf(job), 1);
+      this.start(modelId, job, running);
+    }
+    if (queue && queue.length === 0) this.queues.delete(modelId);
+    // Models come and go, so idle ones keep no bookkeeping
+    if (running.size === 0 && !this.queues.has(modelId)) this.running.delete(modelId);
+    this.notifyPositions(modelId);
+  }
+
+  private start(modelId: string, job: QueuedJob, running: Set<string>): void {
+    const { id, appKey } = job.options;
+    const controller = new AbortController();
+    running.add(id);
+    this.controllers.set(id, controller);
+    this.lastServed.set(appKey, this.sequence++);
+    job.options.onQueuePosition?.(0);
+
+    job.options.run(controller.signal)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        running.delete(id);
+        this.controllers.delete(id);
+        this.drain(modelId);
+      });
+  }
+
+  private pick(queue: QueuedJob[]): QueuedJob {
+    return queue.reduce((best, job) => this.compare(job, best, this.lastServed) < 0 ? job : best);
+  }
+
+  // Negative when `a` should run before `b`
+  private compare(a: QueuedJob, b: QueuedJob, lastServed: Map<string, number>): number {
+    if (a.priority !== b.priority) return b.priority - a.priority;
+    const servedA = lastServed.get(a.options.appKey) ?? -1;
+    const servedB = lastServed.get(b.options.appKey) ?? -1;
+    if (servedA !== servedB) return servedA - servedB;
+    return a.sequence - b.sequence;
+  }
+
+  // The order queued jobs would start in, simulating the fairness bookkeeping as each one is picked
+  private order(queue: QueuedJob[]): QueuedJob[] {
+    const remaining = [...queue];
+    const lastServed = new Map(this.lastServed);
+    let tick = this.sequence;
+    const ordered: QueuedJob[] = [];
+    while (remaining.length > 0) {
+      const next = remaining.reduce((best, job) => this.compare(job, best, lastServed) < 0 ? job : best);
+      remaining.splice(remaining.indexOf(next), 1);
+      lastServed.set(next.options.appKey, tick++);
+      ordered.push(next);
+    }
+    return ordered;
+  }
+
+  private notifyPositions(modelId: string): void {
+    const queue = this.queues.get(modelId);
+    if (!queue) return;
+    this.order(queue).forEach((job, index) => {
+      const position = index + 1;
+      if (job.lastPosition !== position) {
+        job.lastPosition = position;
+        job.options.onQueuePosition?.(position);
+      }
+    });
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Service worker side of the inference engine
+ * Owns the offscreen document that hosts `onnx-worker.js` and turns worker round trips into promises
+ */
+import type { ModelConfig } from '../core/utils/model.list';
+import type { GenerationResult, TokenCallback } from '../core/providers/decode-loop';
+import type { GenerationInput } from '../core/providers/chat-template';
+import type { GenerationOptions } from '../core/providers/context-window';
+import type { RuntimeOptions } from '../core/utils/runtime-settings';
+import type { WebNNCapabilities } from '../core/utils/webnn-utils';
+import type { ProviderBenchmark } from '../core/utils/provider-benchmark';
+import type { StorageBackendKind } from '../core/utils/chunk-storage';
+
+const OFFSCREEN_PATH = 'src/offscreen/index.html';
+
+interface EngineResponse {
+  type: 'success' | 'error';
+  payload?: any;
+  id?: string;
+}
+
+export interface EngineStatus {
+  currentModel: string | null;
+  loadedModels: string[];
+  availableProviders: string[];
+  currentProvider: string | null;
+  // Provider each loaded model's session runs on
+  modelProviders: Record<string, string>;
+}
+
+const createEngineRequestId = (): string => `engine_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+export class OffscreenEngine {
+  private creating: Promise<void> | null = null;
+  // Progress callbacks for in-flight generations and downloads, keyed by engine request id
+  private progressHandlers = new Map<string, (payload: any) => void>();
+
+  constructor() {
+    chrome.runtime.onMessage.addListener((message) => {
+      if (message?.type === 'engine-progress') {
+        this.progressHandlers.get(message.id)?.(message.payload);
+      }
+      return false;
+    });
+  }
+
+  async hasDocument(): Promise<boolean> {
+    const contexts = await chrome.runtime.getContexts({
+      contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+      documentUrls: [chrome.runtime.getURL(OFFSCREEN_PATH)]
+    });
+    return contexts.length > 0;
+  }
+
+  private async ensureDocument(): Promise<void> {
+    if (await this.hasDocument()) return;
+    // Only one document may exist; concurrent callers wait on the same creation
+    if (!this.creating) {
+      this.creating = chrome.offscreen.createDocument({
+        url: OFFSCREEN_PATH,
+        reasons: [chrome.offscreen.Reason.WORKERS],
+        justification: 'Runs ONNX model inference in a worker that outlives the popup'
+      }).finally(() => {
+        this.creating = null;
+      });
+    }
+    await this.creating;
+  }
+
+  private async request(type: string, payload?: unknown, onProgress?: (payload: any) => void, id = createEngineRequestId()): Promise<any> {
+    await this.ensureDocument();
+    if (onProgress) this.progressHandlers.set(id, onProgress);
+    try {
+      const response: EngineResponse | undefined = await chrome.runtime.sendMessage({
+        target: 'offscreen',
+        type: 'engine-request',
+        id,
+        message: { type, payload }
+      });
+      if (!response) {
+        throw new Error('Inference engine did not respond');
+      }
+      if (response.type === 'error') {
+        throw new Error(response.payload?.message || 'Inference engine error');
+      }
+      return response.payload;
+    } finally {
+      this.progressHandlers.delete(id);
+    }
+  }
+
+  /**
+   * @param runtime Execution providers in preference order plus session and WASM settings;
+   * the worker falls back down the provider list
+   */
+  async loadModel(
+    config: ModelConfig,
+    runtime: RuntimeOptions
+  ): Promise<{ modelId: string; provider: string | null }> {
+    const payload = await this.request('loadModel', { config, runtime });
+    return { modelId: payload.modelId, provider: payload.provider ?? null };
+  }
+
+  async unloadModel(modelId: string): Promise<void> {
+    await this.request('unloadModel', modelId);
+  }
+
+  /**
+   * Aborting `signal` asks the worker to stop; the call then resolves with the partial text
+   * and a `cancelled` finish reason
+   */
+  async generate(
+    modelId: string,
+    input: GenerationInput,
+    options?: GenerationOptions,
+    onToken?: TokenCallback,
+    signal?: AbortSignal
+  ): Promise<GenerationResult> {
+    if (signal?.aborted) {
+      return { text: '', finishReason: 'cancelled', tokenCount: 0 };
+    }
+    const id = createEngineRequestId();
+    const onAbort = () => {
+      this.request('abort', { id }).catch(error => console.warn('Failed to abort generation:', error));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const onProgress = onToken ? (progress: { token: string; text: string }) => onToken(progress.token, progress.text) : undefined;
+      const payload = await this.request('inference', { input, modelId, options }, onProgress, id);
+      return { text: payload.response, finishReason: payload.finishReason, tokenCount: payload.tokenCount, context: payload.context };
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Download a model's files in the engine worker, the only context that can write OPFS chunks.
+   * Aborting `signal` stops the download and rejects; what was stored is kept for resuming
+   */
+  async downloadModel(config: ModelConfig, backend: StorageBackendKind, onProgress?: (info: any) => void, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const id = createEngineRequestId();
+    const onAbort = () => {
+      this.request('abort', { id }).catch(error => console.warn('Failed to abort download:', error));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      await this.request('downloadModel', { config, backend }, onProgress, id);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Move stored files and paused downloads to `backend`; runs in the worker for the same reason as downloads
+  async migrateStorage(backend: StorageBackendKind, onProgress?: (modelId: string, moved: number, total: number) => void): Promise<string[]> {
+    const progress = onProgress ? (p: { modelId: string; moved: number; total: number }) => onProgress(p.modelId, p.moved, p.total) : undefined;
+    const payload = await this.request('migrateStorage', { backend }, progress);
+    return payload.migrated;
+  }
+
+  async countTokens(modelId: string, input: GenerationInput): Promise<{ promptTokens: number; contextLength: number }> {
+    return this.request('countTokens', { modelId, input });
+  }
+
+  // Times `config`'s model, which must be loaded, on every provider the worker has
+  async benchmark(config: ModelConfig, runtime: RuntimeOptions, prompt: string, maxTokens: number): Promise<ProviderBenchmark[]> {
+    return this.request('benchmark', { config, runtime, prompt, maxTokens });
+  }
+
+  // Probes every WebNN device type from the worker, which unlike the service worker can reach `navigator.ml`
+  async probeWebNN(): Promise<WebNNCapabilities[]> {
+    return this.request('probeWebNN');
+  }
+
+  // Null when the document is not running, i.e. nothing is loaded
+  async getStatus(): Promise<EngineStatus | null> {
+    if (!(await this.hasDocument())) return null;
+    return this.request('status');
+  }
+}
@@ -3,9 +3,140 @@
  * Manages model configurations, downloads, and state
  */
 
-import { ModelConfig, ModelDataList, OnnxModelConfigFill } from '../core/utils/model.list';
+import { ModelConfig, ModelDataList, OnnxModelConfigFill, hasModelFiles } from '../core/utils/model.list';
 import { WebNNUtils } from '../core/utils/webnn-utils';
-import { hasModelData, deleteModelData } from '../core/utils/fetchchunkstore';
+import {
+  ModelVariant,
+  QuantizationRecommendation,
+  discoverModelVariants,
+  fetchLfsHashes,
+  pickVariant,
+  recommendQuantization
+} from '../core/utils/model-variants';
+import {
+  hasModelData,
+  deleteStoredModel,
+  listStoredModels,
+  listPartialDownloads,
+  getStorageStats,
+  clearStoredModels,
+  listExpiredModels,
+  verifyStoredModel,
+  ModelMeta,
+  StorageStats,
+  VerifyResult
+} from '../core/utils/fetchchunkstore';
+import {
+  STORAGE_BACKEND_KEY,
+  StorageBackendKind,
+  isOpfsAvailable,
+  isStorageBackendKind,
+  loadStorageBackend
+} from '../core/utils/chunk-storage';
+import { OffscreenEngine } from './offscreen-engine';
+import { GenerationCancelledError, GenerationScheduler } from './generation-scheduler';
+import { DownloadEntry, DownloadManager } from './download-manager';
+import type { GenerationOptions } from '../core/providers/context-window';
+import { isExecutionProvider } from '../core/providers/execution-providers';
+import {
+  RUNTIME_SETTINGS_KEY,
+  ModelRuntimeProfile,
+  RuntimeOptions,
+  RuntimeSettings,
+  normalizeModelRuntime,
+  normalizeRuntimeSettings,
+  resolveRuntimeOptions,
+  withModelDefaults
+} from '../core/utils/runtime-settings';
+import {
+  BENCHMARK_MAX_TOKENS,
+  BENCHMARK_PROMPT,
+  BenchmarkRun,
+  loadLatestBenchmark,
+  rankProvidersBySpeed,
+  saveBenchmark
+} from '../core/utils/provider-benchmark';
+import type { GenerationResult, TokenCallback } from '../core/providers/decode-loop';
+import { GenerationInput, normalizeChatMessages } from '../core/providers/chat-template';
+import {
+  Capability,
+  Permission,
+  PermissionGrant,
+  isModelAllowed,
+  isModelPermission,
+  isMaxTokensPermission,
+  normalizePermissions,
+  resolveGrant
+} from '../core/utils/permissions';
+
+type HandlerResponse<T = undefined> =
+  | { success: true; data?: T; message?: string }
+  | { success: false; error: string; code?: AccessErrorCode | 'cancelled' };
+
+type AccessErrorCode = 'not-approved' | 'permission-denied';
+
+// How a generation is queued and where its progress is reported
+interface GenerationJobContext {
+  id: string;
+  appKey: string;
+  priority: number;
+  onQueuePosition?: (position: number) => void;
+  // Called every GENERATION_KEEP_ALIVE_MS while the job runs, so the page's idle timer outlasts loads and prefill
+  onKeepAlive?: () => void;
+}
+
+// Below the SDK's default 30 s idle timeout
+const GENERATION_KEEP_ALIVE_MS = 10000;
+
+type AccessDenied = { success: false; error: string; code: AccessErrorCode };
+
+/**
+ * Message types a web page may send (through the content script) and the permission each needs.
+ * `null` means no approval is required; anything missing from this table is refused for pages.
+ */
+const PAGE_MESSAGE_PERMISSIONS: Record<string, Capability | null> = {
+  'approvalRequest': null,
+  'checkAppApproval': null,
+  'generate-response': 'generate',
+  'test-model': 'generate',
+  'cancel-generation': 'generate',
+  'load-model': 'load-model',
+  'unload-model': 'load-model',
+  'downloadModel': 'download-model',
+  'get-available-models': 'list-models',
+  'get-available-providers': 'list-models',
+  'get-webnn-devices': 'list-models',
+  'get-preferred-webnn-device': 'list-models',
+  'get-cache-stats': 'list-models',
+  'get-cached-models': 'list-models',
+  'clear-all-cached-models': 'manage-cache',
+  'cleanup-old-cached-models': 'manage-cache'
+};
+
+// chrome.storage.local key of the persisted download queue
+const DOWNLOAD_QUEUE_KEY = 'downloadQueue';
+
+// Config fields that decide which files are downloaded; changing one invalidates the stored data
+const MODEL_FILE_FIELDS = ['urlBase', 'onnxDir', 'repoBase', 'modelFileName', 'modelExDataFileName'] as const;
+
+// Page message types that act on one model and so are subject to `specific-model:` limits
+const MODEL_SCOPED_MESSAGES = new Set(['generate-response', 'test-model', 'load-model', 'unload-model', 'downloadModel']);
+
+// Origin of a web page sender, or null when the message comes from the extension itself
+function getPageOrigin(sender: chrome.runtime.MessageSender): string | null {
+  const extensionOrigin = new URL(chrome.runtime.getURL('')).origin;
+  const origin = sender.origin ?? (sender.url ? new URL(sender.url).origin : null);
+  if (sender.id === chrome.runtime.id && (!sender.tab || origin === extensionOrigin)) {
+    return null;
+  }
+  return origin ?? 'null';
+}
+
+interface AvailableModel extends ModelConfig {
+  isDownloaded: boolean;
+  isSelected: boolean;
+  isLoaded: boolean;
+}
 
 interface ApprovedApp {
   id: string;
@@ -13,7 +144,7 @@ interface ApprovedApp {
   origin: string;
   description?: string;
   approvedAt: number;
-  permissions: string[];
+  permissions: Permission[];
 }
 
 interface ApprovalRequest {
@@ -22,7 +153,7 @@ interface ApprovalRequest {
     name: string;
     origin: string;
     description?: string;
-    requestedPermissions: string[];
+    requestedPermissions: Permission[];
   };
   requestedAt: number;
   status: 'pending' | 'approved' | 'rejected';
@@ -32,8 +163,18 @@ interface ServiceWorkerState {
   modelList: ModelDataList;
   currentSelectedModel: string | null;
   availableProviders: string[];
+  // Provider order, WebNN device and ORT flags from the Settings tab
+  runtimeSettings: RuntimeSettings;
+  // Newest provider benchmark measured in this browser
+  latestBenchmark: BenchmarkRun | null;
+  // Where new downloads store their chunks, from the Settings tab
+  storageBackend: StorageBackendKind;
+  // Set while stored models move to another backend
+  migratingStorage: boolean;
   webnnDevices: any[];
   preferredDevice: any;
+  // Bytes stored by interrupted downloads, per model (model file and external data together)
+  partialDownloads: Map<string, number>;
   approvedApps: Map<string, ApprovedApp>;
   approvedModelConfigs: Map<string, ModelConfig>;
   pendingApprovalRequests: Map<string, ApprovalRequest>;
@@ -43,6 +184,16 @@ class LLMServiceWorker {
   private state: ServiceWorkerState;
   private webnnUtils: WebNNUtils;
   private initialized = false;
+  private initializing: Promise<void> | null = null;
+  // Inference runs in the offscreen document, which is created on first use
+  private engine = new OffscreenEngine();
+  // Serialises generations per model so concurrent callers do not share a session mid-run
+  private scheduler = new GenerationScheduler();
+  // Model downloads, one at a time; the queue survives service worker restarts
+  private downloads = new DownloadManager({
+    run: (modelId, signal) => this.runDownload(modelId, signal),
+    onChange: downloads => this.onDownloadsChanged(downloads)
+  });
 
   constructor() {
     this.webnnUtils = WebNNUtils.getInstance();
@@ -50,33 +201,51 @@ class LLMServiceWorker {
       modelList: new ModelDataList([]),
       currentSelectedModel: null,
       availableProviders: [],
+      runtimeSettings: normalizeRuntimeSettings(undefined),
+      latestBenchmark: null,
+      storageBackend: 'indexeddb',
+      migratingStorage: false,
       webnnDevices: [],
       preferredDevice: null,
+      partialDownloads: new Map<string, number>(),
       approvedApps: new Map<string, ApprovedApp>(),
       approvedModelConfigs: new Map<string, ModelConfig>(),
       pendingApprovalRequests: new Map<string, ApprovalRequest>()
     };
   }
 
-  async initialize(): Promise<void> {
+  // Safe to call from every message: concurrent callers share the same run
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.runInitialize();
+    }
+    return this.initializing;
+  }
+
+  private async runInitialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
       console.log('Initializing LLM Service Worker...');
       
-      // Initialize WebNN utilities
+      // Initialize WebNN utilities from cached probe results
       await this.webnnUtils.initialize();
       
       // Get available providers and devices
-      this.state.availableProviders = this.getAvailableProviders();
-      this.state.webnnDevices = this.webnnUtils.getAvailableDevices();
-      this.state.preferredDevice = this.webnnUtils.getPreferredDevice();
+      this.updateDeviceState();
+      if (!(await this.webnnUtils.hasFreshCapabilities())) {
+        // Probing needs the engine worker; models load on the other providers until it finishes
+        void this.refreshWebNNCapabilities();
+      }
       
       // Load existing model configurations from storage
       await this.loadModelConfigsFromStorage();
+      this.state.latestBenchmark = await loadLatestBenchmark();
+      this.state.storageBackend = await loadStorageBackend();
       
       // Check which models are already downloaded
       await this.checkDownloadedModels();
+      await this.restoreDownloadQueue();
       
       this.initialized = true;
       console.log('LLM Service Worker initialized successfully');
@@ -98,21 +267,48 @@ class LLMServiceWorker {
       providers.push('webgpu');
     }
     
-    // Check for WebNN support
-    if (this.webnnUtils.isWebNNAvailable()) {
+    // WebNN counts only once a probe found a device that builds the core ops
+    if (this.webnnUtils.getPreferredDevice()) {
       providers.push('webnn');
     }
     
     return providers;
   }
 
+  private updateDeviceState(): void {
+    this.state.availableProviders = this.getAvailableProviders();
+    this.state.webnnDevices = this.webnnUtils.getAvailableDevices();
+    this.state.preferredDevice = this.webnnUtils.getPreferredDevice();
+  }
+
+  // Re-probe WebNN devices in the engine worker and cache the results
+  async refreshWebNNCapabilities(): Promise<HandlerResponse<{ availableProviders: string[]; webnnDevices: any[]; preferredDevice: any }>> {
+    try {
+      await this.webnnUtils.setCapabilities(await this.engine.probeWebNN());
+      this.updateDeviceState();
+      console.log('WebNN devices probed:', this.state.webnnDevices);
+      return {
+        success: true,
+        data: {
+          availableProviders: this.state.availableProviders,
+          webnnDevices: this.state.webnnDevices,
+          preferredDevice: this.state.preferredDevice
+        }
+      };
+    } catch (error) {
+      return { success: false, error: `WebNN probe failed: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
   private async loadModelConfigsFromStorage(): Promise<void> {
     try {
       const result = await chrome.storage.local.get([
         'modelConfigs', 
         'selectedModel', 
         'approvedApps', 
-        'approvedModelConfigs'
+        'approvedModelConfigs',
+        RUNTIME_SETTINGS_KEY,
+        'providerPreference'
       ]);
       
       if (result.modelConfigs && Array.isArray(result.modelConfigs)) {
@@ -122,10 +318,20 @@ class LLMServiceWorker {
       if (result.selectedModel && typeof result.selectedModel === 'string') {
         this.state.currentSelectedModel = result.selectedModel;
       }
+
+      if (result[RUNTIME_SETTINGS_KEY]) {
+        this.state.runtimeSettings = normalizeRuntimeSettings(result[RUNTIME_SETTINGS_KEY]);
+      } else if (isExecutionProvider(result.providerPreference)) {
+        // Earlier versions stored a single preferred provider
+        this.state.runtimeSettings = normalizeRuntimeSettings({ providerOrder: [result.providerPreference] });
+      }
       
       // Load approved apps
       if (result.approvedApps && Array.isArray(result.approvedApps)) {
-        this.state.approvedApps = new Map(result.approvedApps.map((app: ApprovedApp) => [app.id, app]));
+        this.state.approvedApps = new Map(result.approvedApps.map((app: ApprovedApp) => [
+          app.id,
+          { ...app, permissions: normalizePermissions(app.permissions) }
+        ]));
       }
       
       // Load approved model configs
@@ -146,7 +352,8 @@ class LLMServiceWorker {
         ).filter(Boolean),
         selectedModel: this.state.currentSelectedModel,
         approvedApps: Array.from(this.state.approvedApps.values()),
-        approvedModelConfigs: Array.from(this.state.approvedModelConfigs.values())
+        approvedModelConfigs: Array.from(this.state.approvedModelConfigs.values()),
+        [RUNTIME_SETTINGS_KEY]: this.state.runtimeSettings
       });
     } catch (error) {
       console.error('Failed to save model configs to storage:', error);
@@ -161,8 +368,8 @@ class LLMServiceWorker {
       for (const modelId of modelIds) {
         const config = this.state.modelList.getModelConfig(modelId);
         if (config) {
-          // Check if model data exists in IndexedDB using hasModelData
-          const isDownloaded = await hasModelData(modelId);
+          // Downloaded once the model file and its external data file are both stored
+          const isDownloaded = await hasModelFiles(config);
           (config as any).isDownloaded = isDownloaded;
           console.log(`Model ${modelId} download status:`, isDownloaded);
         }
@@ -170,6 +377,20 @@ class LLMServiceWorker {
     } catch (error) {
       console.error('Failed to check downloaded models:', error);
     }
+    await this.refreshPartialDownloads();
+  }
+
+  private async refreshPartialDownloads(): Promise<void> {
+    try {
+      const partials = new Map<string, number>();
+      for (const partial of await listPartialDownloads()) {
+        const modelId = partial.modelId.replace(/_external$/, '');
+        partials.set(modelId, (partials.get(modelId) ?? 0) + partial.bytesStored);
+      }
+      this.state.partialDownloads = partials;
+    } catch (error) {
+      console.error('Failed to list interrupted downloads:', error);
+    }
   }
 
 
@@ -187,7 +408,10 @@ class LLMServiceWorker {
       }
       
       // Add model to list
-      const added = await this.state.modelList.addModel(modelConfig.modelId, modelConfig);
+      const added = await this.state.modelList.addModel(modelConfig.modelId, {
+        ...modelConfig,
+        runtime: normalizeModelRuntime(modelConfig.runtime)
+      });
       // Also add to approved model configs
       this.state.approvedModelConfigs.set(added.modelId, added);
       
@@ -210,15 +434,37 @@ class LLMServiceWorker {
       }
       const existing = this.state.modelList.getModelConfig(modelConfig.modelId);
       const wasDownloaded = existing ? (existing as any).isDownloaded === true : false;
+      const incoming = OnnxModelConfigFill(modelConfig.modelId, modelConfig);
+      // Switching variants (or anything else that names other files) means downloading again
+      const filesChanged = existing !== undefined && MODEL_FILE_FIELDS.some(field => existing[field] !== incoming[field]);
+      // A download under way fetches the old files, so it starts over as well
+      const downloading = this.downloads.get(modelConfig.modelId) !== undefined;
+      if (wasDownloaded && filesChanged && this.scheduler.hasJobs(modelConfig.modelId)) {
+        return { success: false, message: `Model ${modelConfig.modelId} has generations running or queued` };
+      }
 
-      // Overwrite existing config (using addModel to normalize defaults)
-      const updated = await this.state.modelList.addModel(modelConfig.modelId, modelConfig);
-      if (wasDownloaded) (updated as any).isDownloaded = true;
+      // Overwrite existing config (using addModel to normalize defaults); a changed runtime profile applies on the next load
+      const updated = await this.state.modelList.addModel(modelConfig.modelId, {
+        ...modelConfig,
+        runtime: normalizeModelRuntime(modelConfig.runtime)
+      });
+      if (wasDownloaded && !filesChanged) (updated as any).isDownloaded = true;
 
       // Keep approved list in sync
       this.state.approvedModelConfigs.set(updated.modelId, updated);
 
       await this.saveModelConfigsToStorage();
+
+      if (filesChanged && (wasDownloaded || downloading)) {
+        await this.downloads.cancel(updated.modelId);
+        await this.handleUnloadModel(updated.modelId);
+        await deleteStoredModel(updated.modelId);
+        try { chrome.runtime.sendMessage({ type: 'modelCleared', modelId: updated.modelId }); } catch {}
+        await this.refreshPartialDownloads();
+        // Progress is reported through downloadProgress/downloadComplete like a manual download
+        void this.handleDownloadModel(updated.modelId);
+        return { success: true, message: 'Model updated, downloading the new files' };
+      }
       return { success: true, message: 'Model updated successfully' };
     } catch (error) {
       console.error('Failed to update model:', error);
@@ -226,6 +472,28 @@ class LLMServiceWorker {
     }
   }
 
+  /**
+   * List the ONNX variants of a repo and pick the one recommended for this machine,
+   * for the Add Model form before the model is configured
+   */
+  async handleDiscoverVariants(modelConfig: Partial<ModelConfig> & { modelId: string }): Promise<HandlerResponse<{
+    variants: ModelVariant[];
+    recommendation: QuantizationRecommendation;
+    recommended: string | null;
+  }>> {
+    try {
+      const variants = await discoverModelVariants(OnnxModelConfigFill(modelConfig.modelId, modelConfig));
+      const recommendation = recommendQuantization(this.state.availableProviders, (navigator as any).deviceMemory);
+      return {
+        success: true,
+        data: { variants, recommendation, recommended: pickVariant(variants, recommendation.level)?.fileName ?? null }
+      };
+    } catch (error) {
+      console.error(`Failed to list variants of ${modelConfig.modelId}:`, error);
+      return { success: false, error: `Failed to list variants: ${error}` };
+    }
+  }
+
   async handleDownloadModel(modelId: string): Promise<{ success: boolean; message: string; progress?: number }> {
     try {
       // Check if model exists in config
@@ -239,32 +507,12 @@ class LLMServiceWorker {
         return { success: true, message: 'Model already downloaded' };
       }
       
-      console.log(`Starting download for model: ${modelId}`);
-      
-      // Use the existing model loading functionality with progress notifications
-      const progressFn = (info: any) => {
-        try {
-          chrome.runtime.sendMessage({ type: 'downloadProgress', modelId, info });
-        } catch (e) {
-          // ignore if no listeners
-        }
-      };
-      await this.state.modelList.loadModel(modelId, progressFn);
-      
-      // Check if model data was successfully stored
-      const modelExists = await hasModelData(modelId);
-      
-      if (modelExists) {
-        // Mark as downloaded
-        (config as any).isDownloaded = true;
-        await this.saveModelConfigsToStorage();
-        
-        console.log(`Model ${modelId} downloaded successfully`);
-        try { chrome.runtime.sendMessage({ type: 'downloadComplete', modelId }); } catch {}
+      // Waits behind other downloads; resolves early when paused or cancelled from the UI
+      const outcome = await this.downloads.enqueue(modelId);
+      if (outcome === 'completed') {
         return { success: true, message: 'Model downloaded successfully' };
-      } else {
-        return { success: false, message: 'Failed to download model data' };
       }
+      return { success: false, message: outcome === 'paused' ? 'Download paused' : 'Download cancelled' };
       
     } catch (error) {
       console.error(`Failed to download model ${modelId}:`, error);
@@ -272,13 +520,119 @@ class LLMServiceWorker {
     }
   }
 
+  // One download attempt, run by the download manager; throws when it fails or is stopped
+  private async runDownload(modelId: string, signal: AbortSignal): Promise<void> {
+    const config = this.state.modelList.getModelConfig(modelId);
+    if (!config) {
+      throw new Error('Model not found in configuration');
+    }
+    if (this.state.migratingStorage) {
+      // Its stored chunks may be the ones being moved; stays paused until resumed
+      throw new Error('Stored models are being moved to another storage backend');
+    }
+    console.log(`Starting download for model: ${modelId}`);
+    
+    // Use the existing model loading functionality with progress notifications
+    const progressFn = (info: any) => {
+      try {
+        chrome.runtime.sendMessage({ type: 'downloadProgress', modelId, info });
+      } catch (e) {
+        // ignore if no listeners
+      }
+    };
+    // Picks up where an interrupted download stopped, see `streamAndStoreModel`. Runs in the engine
+    // worker, which can write OPFS chunks through sync access handles
+    try {
+      await this.engine.downloadModel(config, this.state.storageBackend, progressFn, signal);
+    } finally {
+      await this.refreshPartialDownloads();
+    }
+    
+    // Check if every model file was successfully stored
+    if (!(await hasModelFiles(config))) {
+      throw new Error('Failed to download model data');
+    }
+    (config as any).isDownloaded = true;
+    await this.saveModelConfigsToStorage();
+    
+    console.log(`Model ${modelId} downloaded successfully`);
+    try { chrome.runtime.sendMessage({ type: 'downloadComplete', modelId }); } catch {}
+  }
+
+  async handlePauseDownload(modelId: string): Promise<HandlerResponse> {
+    if (!(await this.downloads.pause(modelId))) {
+      return { success: false, error: `No download of ${modelId} is running or queued` };
+    }
+    return { success: true, message: 'Download paused' };
+  }
+
+  // Returns once the download is queued; progress arrives as downloadProgress/downloadComplete
+  async handleResumeDownload(modelId: string): Promise<HandlerResponse> {
+    const config = this.state.modelList.getModelConfig(modelId);
+    if (!config) {
+      return { success: false, error: 'Model not found in configuration' };
+    }
+    if ((config as any).isDownloaded) {
+      return { success: true, message: 'Model already downloaded' };
+    }
+    // Downloads interrupted before the queue was persisted are only known by their stored chunks
+    if (!this.downloads.resume(modelId)) {
+      void this.handleDownloadModel(modelId);
+    }
+    return { success: true, message: 'Download resumed' };
+  }
+
+  // Stop a download and delete what it stored
+  async handleCancelDownload(modelId: string): Promise<HandlerResponse> {
+    const cancelled = await this.downloads.cancel(modelId);
+    if (!cancelled && !this.state.partialDownloads.has(modelId)) {
+      return { success: false, error: `No download of ${modelId} to cancel` };
+    }
+    const config = this.state.modelList.getModelConfig(modelId);
+    if (!(config as any)?.isDownloaded) {
+      await deleteStoredModel(modelId);
+    }
+    await this.refreshPartialDownloads();
+    try { chrome.runtime.sendMessage({ type: 'modelCleared', modelId }); } catch {}
+    return { success: true, message: 'Download cancelled' };
+  }
+
+  private onDownloadsChanged(downloads: DownloadEntry[]): void {
+    chrome.storage.local.set({ [DOWNLOAD_QUEUE_KEY]: downloads }).catch(error => {
+      console.error('Failed to save the download queue:', error);
+    });
+    try { chrome.runtime.sendMessage({ type: 'downloadState', downloads }); } catch {}
+  }
+
+  // Queue again what was downloading or queued when the service worker last stopped
+  private async restoreDownloadQueue(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(DOWNLOAD_QUEUE_KEY);
+      const stored: DownloadEntry[] = Array.isArray(result[DOWNLOAD_QUEUE_KEY]) ? result[DOWNLOAD_QUEUE_KEY] : [];
+      this.downloads.restore(stored.filter(entry => {
+        const config = this.state.modelList.getModelConfig(entry?.modelId);
+        return config !== undefined && !(config as any).isDownloaded;
+      }));
+    } catch (error) {
+      console.error('Failed to restore the download queue:', error);
+    }
+  }
+
   async handleClearModel(modelId: string): Promise<{ success: boolean; message: string }> {
     try {
       const config = this.state.modelList.getModelConfig(modelId);
       if (!config) return { success: false, message: 'Model not found in configuration' };
-      const hadData = await hasModelData(modelId);
+      if (this.scheduler.hasJobs(modelId)) {
+        return { success: false, message: `Model ${modelId} has generations running or queued` };
+      }
+      await this.downloads.cancel(modelId);
+      if ((await this.engine.getStatus())?.loadedModels.includes(modelId)) {
+        await this.engine.unloadModel(modelId);
+      }
+      const hadData = await hasModelData(modelId) || await hasModelData(`${modelId}_external`) || this.state.partialDownloads.has(modelId);
       if (!hadData) return { success: true, message: 'No model data to clear' };
-      const ok = await deleteModelData(modelId);
+      const ok = await deleteStoredModel(modelId);
+      await this.refreshPartialDownloads();
       if (ok) {
         (config as any).isDownloaded = false;
         await this.saveModelConfigsToStorage();
@@ -292,13 +646,357 @@ class LLMServiceWorker {
     }
   }
 
+  /**
+   * Re-hash the stored files of a downloaded model chunk by chunk and compare them with the
+   * SHA-256 published on the Hub. Progress is broadcast as verifyProgress messages
+   */
+  async handleVerifyModel(modelId: string): Promise<HandlerResponse<{ ok: boolean; files: VerifyResult[] }>> {
+    const config = this.state.modelList.getModelConfig(modelId);
+    if (!config) {
+      return { success: false, error: 'Model not found in configuration' };
+    }
+    if (!(await hasModelFiles(config))) {
+      return { success: false, error: `${modelId} is not downloaded` };
+    }
+    try {
+      // Only needed for files downloaded before their hash was recorded
+      const hashes = await fetchLfsHashes(config).catch((error) => {
+        console.warn(`Could not list the SHA-256 hashes of ${modelId}:`, error);
+        return new Map<string, string>();
+      });
+      const files: VerifyResult[] = [];
+      const checks: Array<[string, string]> = [[modelId, config.modelFileName]];
+      if (config.modelExDataFileName) {
+        checks.push([`${modelId}_external`, config.modelExDataFileName]);
+      }
+      for (const [storedId, fileName] of checks) {
+        const result = await verifyStoredModel(storedId, hashes.get(fileName), (checked, total) => {
+          try { chrome.runtime.sendMessage({ type: 'verifyProgress', modelId, file: fileName, checked, total }); } catch {}
+        });
+        if (result) files.push(result);
+      }
+      return { success: true, data: { ok: files.every(file => file.ok), files } };
+    } catch (error) {
+      console.error(`Failed to verify ${modelId}:`, error);
+      return { success: false, error: `Failed to verify model: ${error}` };
+    }
+  }
+
+  async getAvailableModels(): Promise<AvailableModel[]> {
+    const loadedModels = (await this.engine.getStatus())?.loadedModels ?? [];
+    return this.state.modelList.currentModelList
+      .map(modelId => this.state.modelList.getModelConfig(modelId))
+      .filter((config): config is ModelConfig => Boolean(config))
+      .map(config => ({
+        ...config,
+        isDownloaded: (config as any).isDownloaded === true,
+        isSelected: config.modelId === this.state.currentSelectedModel,
+        isLoaded: loadedModels.includes(config.modelId)
+      }));
+  }
+
+  async handleLoadModel(modelId: string): Promise<HandlerResponse<{ modelId: string; provider: string | null }>> {
+    try {
+      const config = this.state.modelList.getModelConfig(modelId);
+      if (!config) {
+        return { success: false, error: 'Model not found in configuration' };
+      }
+      if (!(config as any).isDownloaded) {
+        return { success: false, error: `Model ${modelId} is not downloaded` };
+      }
+
+      const status = await this.engine.getStatus();
+      if (status?.loadedModels.includes(modelId)) {
+        return { success: true, data: { modelId, provider: status.modelProviders[modelId] ?? null } };
+      }
+
+      const loaded = await this.engine.loadModel(config, this.getRuntimeOptions(config.runtime));
+      return { success: true, data: loaded };
+    } catch (error) {
+      console.error(`Failed to load model ${modelId}:`, error);
+      return { success: false, error: `Failed to load model: ${error}` };
+    }
+  }
+
+  async handleUnloadModel(modelId: string): Promise<HandlerResponse> {
+    try {
+      const status = await this.engine.getStatus();
+      if (!status?.loadedModels.includes(modelId)) {
+        return { success: true, message: 'Model is not loaded' };
+      }
+      if (this.scheduler.hasJobs(modelId)) {
+        return { success: false, error: `Model ${modelId} has generations running or queued` };
+      }
+      await this.engine.unloadModel(modelId);
+      return { success: true, message: 'Model unloaded' };
+    } catch (error) {
+      console.error(`Failed to unload model ${modelId}:`, error);
+      return { success: false, error: `Failed to unload model: ${error}` };
+    }
+  }
+
+  // `prompt` is a raw completion prompt or a conversation rendered through the model's chat template
+  async handleGenerateResponse(
+    prompt: GenerationInput,
+    modelId: string | undefined,
+    options: GenerationOptions | undefined,
+    job: GenerationJobContext,
+    onToken?: TokenCallback
+  ): Promise<HandlerResponse<GenerationResult>> {
+    const input = typeof prompt === 'string' ? prompt : normalizeChatMessages(prompt);
+    if (!input || input.length === 0) {
+      return { success: false, error: Array.isArray(prompt) ? 'Messages must be { role, content } objects' : 'Prompt is required' };
+    }
+    const targetModel = modelId || this.state.currentSelectedModel;
+    if (!targetModel) {
+      return { success: false, error: 'No model selected' };
+    }
+    const generationOptions = withModelDefaults(options, this.state.modelList.getModelConfig(targetModel)?.runtime);
+
+    const { onKeepAlive, ...jobOptions } = job;
+    try {
+      const result = await this.scheduler.schedule({
+        ...jobOptions,
+        modelId: targetModel,
+        run: async (signal) => {
+          // Loading the model and the prompt's prefill send nothing for a while
+          const keepAlive = onKeepAlive ? setInterval(onKeepAlive, GENERATION_KEEP_ALIVE_MS) : undefined;
+          try {
+            // Loading inside the job keeps it ordered with the generations for the same model
+            const loaded = await this.handleLoadModel(targetModel);
+            if (!loaded.success) {
+              throw new Error(loaded.error);
+            }
+            return await this.engine.generate(targetModel, input, generationOptions, onToken, signal);
+          } finally {
+            clearInterval(keepAlive);
+          }
+        }
+      });
+      return { success: true, data: result };
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        return { success: false, error: error.message, code: 'cancelled' };
+      }
+      console.error(`Generation failed for ${targetModel}:`, error);
+      return { success: false, error: `Generation failed: ${error}` };
+    }
+  }
+
+  // Prompt size for a loaded model; never loads one, so it is cheap to call while typing
+  async handleCountTokens(prompt: GenerationInput, modelId: string | undefined): Promise<HandlerResponse<{ promptTokens: number; contextLength: number }>> {
+    const input = typeof prompt === 'string' ? prompt : normalizeChatMessages(prompt);
+    const targetModel = modelId || this.state.currentSelectedModel;
+    if (input === null || !targetModel) {
+      return { success: false, error: 'A prompt or messages and a model are required' };
+    }
+    const status = await this.engine.getStatus();
+    if (!status?.loadedModels.includes(targetModel)) {
+      return { success: false, error: `Model ${targetModel} is not loaded` };
+    }
+    try {
+      return { success: true, data: await this.engine.countTokens(targetModel, input) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to count tokens' };
+    }
+  }
+
+  // Queued generations fail with `cancelled`, running ones stop and return their partial text
+  handleCancelGeneration(jobId: string): HandlerResponse<{ cancelled: boolean }> {
+    return { success: true, data: { cancelled: this.scheduler.cancel(jobId) } };
+  }
+
+  // Stored files of the models a page's grant allows; external data files go with their model
+  async getCachedModels(grant?: PermissionGrant | null): Promise<ModelMeta[]> {
+    const models = await listStoredModels();
+    return grant ? models.filter(meta => isModelAllowed(grant, meta.modelId.replace(/_external$/, ''))) : models;
+  }
+
+  // Apps limited to some models only see their totals, without the origin-wide usage and quota
+  async getCacheStats(grant?: PermissionGrant | null): Promise<StorageStats> {
+    if (!grant || grant.models.length === 0) {
+      return getStorageStats();
+    }
+    const models = await this.getCachedModels(grant);
+    return {
+      modelCount: models.filter(meta => !meta.modelId.endsWith('_external')).length,
+      totalBytes: models.reduce((sum, meta) => sum + (meta.totalBytes ?? 0), 0)
+    };
+  }
+
+  async handleClearAllCachedModels(): Promise<HandlerResponse<{ removed: string[] }>> {
+    try {
+      // A queued generation would load a model whose files are gone
+      const busy = this.state.modelList.currentModelList.find(modelId => this.scheduler.hasJobs(modelId));
+      if (busy) {
+        return { success: false, error: `Model ${busy} has generations running or queued` };
+      }
+      await this.downloads.cancelAll();
+      for (const modelId of (await this.engine.getStatus())?.loadedModels ?? []) {
+        await this.engine.unloadModel(modelId);
+      }
+      const removed = await clearStoredModels();
+      await this.markRemoved(removed);
+      await this.refreshPartialDownloads();
+      return { success: true, data: { removed } };
+    } catch (error) {
+      console.error('Failed to clear cached models:', error);
+      return { success: false, error: `Failed to clear cached models: ${error}` };
+    }
+  }
+
+  async handleCleanupOldCachedModels(maxAge: number): Promise<HandlerResponse<{ removed: string[] }>> {
+    try {
+      const loaded = (await this.engine.getStatus())?.loadedModels ?? [];
+      const removed: string[] = [];
+      for (const modelId of await listExpiredModels(maxAge)) {
+        // In use; left for a later cleanup
+        if (this.scheduler.hasJobs(modelId)) continue;
+        await this.downloads.cancel(modelId);
+        if (loaded.includes(modelId)) {
+          await this.engine.unloadModel(modelId);
+        }
+        if (await deleteStoredModel(modelId)) removed.push(modelId);
+      }
+      await this.markRemoved(removed);
+      await this.refreshPartialDownloads();
+      return { success: true, data: { removed } };
+    } catch (error) {
+      console.error('Failed to clean up cached models:', error);
+      return { success: false, error: `Failed to clean up cached models: ${error}` };
+    }
+  }
+
+  // Keep download flags and the UI in step with data removed from IndexedDB
+  private async markRemoved(modelIds: string[]): Promise<void> {
+    for (const modelId of modelIds) {
+      const config = this.state.modelList.getModelConfig(modelId);
+      if (config) (config as any).isDownloaded = false;
+      try { chrome.runtime.sendMessage({ type: 'modelCleared', modelId }); } catch {}
+    }
+    if (modelIds.length > 0) {
+      await this.saveModelConfigsToStorage();
+    }
+  }
+
+  // What the engine loads models with: the runtime settings and the model's profile matched against this machine
+  getRuntimeOptions(profile?: ModelRuntimeProfile): RuntimeOptions {
+    const settings = this.state.runtimeSettings;
+    const providerOrder = settings.rankByBenchmark
+      ? rankProvidersBySpeed(settings.providerOrder, this.state.latestBenchmark)
+      : settings.providerOrder;
+    return resolveRuntimeOptions(
+      { ...settings, providerOrder },
+      this.state.availableProviders,
+      this.state.preferredDevice?.type,
+      profile
+    );
+  }
+
+  /**
+   * Merge `changes` into the runtime settings. They apply to models loaded from now on; loaded ones
+   * keep their provider until reloaded, and the WASM flags wait for the engine's next start
+   */
+  async setRuntimeSettings(changes: unknown): Promise<HandlerResponse<{ runtimeSettings: RuntimeSettings; runtime: RuntimeOptions }>> {
+    if (!changes || typeof changes !== 'object') {
+      return { success: false, error: 'Runtime settings must be an object' };
+    }
+    this.state.runtimeSettings = normalizeRuntimeSettings({ ...this.state.runtimeSettings, ...changes });
+    await this.saveModelConfigsToStorage();
+    return { success: true, data: { runtimeSettings: this.state.runtimeSettings, runtime: this.getRuntimeOptions() } };
+  }
+
+  /**
+   * Choose where model files are stored and move the stored ones there. Refused while downloads
+   * run or wait, since they write to the old backend; paused downloads move with the rest.
+   * Progress is broadcast as storageMigration messages
+   */
+  async setStorageBackend(backend: unknown): Promise<HandlerResponse<{ storageBackend: StorageBackendKind; migrated: string[] }>> {
+    if (!isStorageBackendKind(backend)) {
+      return { success: false, error: `Unknown storage backend: ${backend}` };
+    }
+    if (backend === 'opfs' && !isOpfsAvailable()) {
+      return { success: false, error: 'The Origin Private File System is not available in this browser' };
+    }
+    if (this.state.migratingStorage) {
+      return { success: false, error: 'Stored models are already being moved' };
+    }
+    if (this.downloads.list().some(entry => entry.state !== 'paused')) {
+      return { success: false, error: 'Pause or finish the running downloads first' };
+    }
+
+    this.state.migratingStorage = true;
+    try {
+      // Saved first, so downloads started from here on already use the new backend
+      this.state.storageBackend = backend;
+      await chrome.storage.local.set({ [STORAGE_BACKEND_KEY]: backend });
+      // The engine worker copies the chunks, since only it can write them to OPFS
+      const migrated = await this.engine.migrateStorage(backend, (modelId, moved, total) => {
+        try { chrome.runtime.sendMessage({ type: 'storageMigration', modelId, moved, total }); } catch {}
+      });
+      await this.refreshPartialDownloads();
+      return { success: true, data: { storageBackend: backend, migrated } };
+    } catch (error) {
+      console.error(`Failed to move stored models to ${backend}:`, error);
+      return { success: false, error: `Failed to move stored models: ${error instanceof Error ? error.message : error}` };
+    } finally {
+      this.state.migratingStorage = false;
+    }
+  }
+
+  /**
+   * Time a downloaded model on every provider the engine has and keep the results for provider ranking.
+   * Runs as a job on the model's queue so it never overlaps a generation
+   */
+  async handleBenchmarkProviders(modelId: string | undefined): Promise<HandlerResponse<{ benchmark: BenchmarkRun; runtime: RuntimeOptions }>> {
+    const targetModel = modelId || this.state.currentSelectedModel;
+    const config = targetModel ? this.state.modelList.getModelConfig(targetModel) : undefined;
+    if (!targetModel || !config) {
+      return { success: false, error: 'Model not found in configuration' };
+    }
+    if (!(config as any).isDownloaded) {
+      return { success: false, error: `Model ${targetModel} is not downloaded` };
+    }
+
+    try {
+      const results = await this.scheduler.schedule({
+        id: `benchmark_${Date.now()}`,
+        appKey: 'extension',
+        modelId: targetModel,
+        priority: 1,
+        run: async () => {
+          // The worker reuses the loaded model's tokenizer and config
+          const loaded = await this.handleLoadModel(targetModel);
+          if (!loaded.success) {
+            throw new Error(loaded.error);
+          }
+          return this.engine.benchmark(config, this.getRuntimeOptions(config.runtime), BENCHMARK_PROMPT, BENCHMARK_MAX_TOKENS);
+        }
+      });
+      const benchmark: BenchmarkRun = { modelId: targetModel, runAt: Date.now(), userAgent: navigator.userAgent, results };
+      await saveBenchmark(benchmark);
+      this.state.latestBenchmark = benchmark;
+      return { success: true, data: { benchmark, runtime: this.getRuntimeOptions() } };
+    } catch (error) {
+      console.error(`Benchmark failed for ${targetModel}:`, error);
+      return { success: false, error: `Benchmark failed: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
   getStatus(): {
     modelIds: string[];
     currentSelectedModel: string | null;
     availableProviders: string[];
+    runtimeSettings: RuntimeSettings;
+    runtime: RuntimeOptions;
+    benchmark: BenchmarkRun | null;
     webnnDevices: any[];
     preferredDevice: any;
     downloadedModels: string[];
+    partialDownloads: Record<string, number>;
+    downloads: DownloadEntry[];
+    storageBackend: StorageBackendKind;
+    opfsAvailable: boolean;
   } {
     const downloadedModels = this.state.modelList.currentModelList.filter(modelId => {
       const config = this.state.modelList.getModelConfig(modelId);
@@ -309,9 +1007,16 @@ class LLMServiceWorker {
       modelIds: this.state.modelList.currentModelList,
       currentSelectedModel: this.state.currentSelectedModel,
       availableProviders: this.state.availableProviders,
+      runtimeSettings: this.state.runtimeSettings,
+      runtime: this.getRuntimeOptions(),
+      benchmark: this.state.latestBenchmark,
       webnnDevices: this.state.webnnDevices,
       preferredDevice: this.state.preferredDevice,
-      downloadedModels
+      downloadedModels,
+      partialDownloads: Object.fromEntries(this.state.partialDownloads),
+      downloads: this.downloads.list(),
+      storageBackend: this.state.storageBackend,
+      opfsAvailable: isOpfsAvailable()
     };
   }
 
@@ -339,13 +1044,18 @@ class LLMServiceWorker {
     origin: string;
     description?: string;
     requestedPermissions: string[];
-  }): Promise<{ success: boolean; message: string; requestId?: string }> {
+  }): Promise<{ success: boolean; message: string; data?: { requestId: string } }> {
     try {
+      const requestedPermissions = normalizePermissions(appInfo.requestedPermissions);
+      if (requestedPermissions.length === 0) {
+        return { success: false, message: 'No recognised permissions were requested' };
+      }
+
       const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       
       const approvalRequest: ApprovalRequest = {
         id: requestId,
-        appInfo,
+        appInfo: { ...appInfo, requestedPermissions },
         requestedAt: Date.now(),
         status: 'pending'
       };
@@ -356,7 +1066,7 @@ class LLMServiceWorker {
       await this.showApprovalPopup(requestId);
       
       console.log(`Approval request created: ${requestId} for app: ${appInfo.name}`);
-      return { success: true, message: 'Approval request created', requestId };
+      return { success: true, message: 'Approval request created', data: { requestId } };
       
     } catch (error) {
       console.error('Failed to handle approval request:', error);
@@ -389,7 +1099,15 @@ class LLMServiceWorker {
     }
   }
 
-  async handleApprovalResponse(requestId: string, approved: boolean): Promise<{ success: boolean; message: string }> {
+  /**
+   * @param grantedPermissions The subset the user ticked; defaults to everything requested.
+   *   `max-tokens:` limits the app asked for always apply
+   */
+  async handleApprovalResponse(
+    requestId: string,
+    approved: boolean,
+    grantedPermissions?: string[]
+  ): Promise<{ success: boolean; message: string }> {
     try {
       const request = this.state.pendingApprovalRequests.get(requestId);
       if (!request) {
@@ -397,6 +1115,16 @@ class LLMServiceWorker {
       }
       
       if (approved) {
+        const requested = request.appInfo.requestedPermissions;
+        const granted = grantedPermissions === undefined
+          ? requested
+          : normalizePermissions(grantedPermissions).filter(p => requested.includes(p));
+        const permissions = [...new Set([...granted, ...requested.filter(isMaxTokensPermission)])];
+        // Unticking every model the app asked for must not widen it to all models
+        if (requested.some(isModelPermission) && !permissions.some(isModelPermission)) {
+          return { success: false, message: 'Select at least one of the requested models' };
+        }
+
         // Create approved app entry
         const approvedApp: ApprovedApp = {
           id: `app_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -404,9 +1132,13 @@ class LLMServiceWorker {
           origin: request.appInfo.origin,
           description: request.appInfo.description,
           approvedAt: Date.now(),
-          permissions: request.appInfo.requestedPermissions
+          permissions
         };
         
+        // A new approval replaces whatever the origin was granted before
+        for (const [id, app] of this.state.approvedApps) {
+          if (app.origin === approvedApp.origin) this.state.approvedApps.delete(id);
+        }
         this.state.approvedApps.set(approvedApp.id, approvedApp);
         request.status = 'approved';
         
@@ -439,6 +1171,51 @@ class LLMServiceWorker {
     return Array.from(this.state.approvedApps.values()).some(app => app.origin === origin);
   }
 
+  /**
+   * Check a page-originated message against the approval list and apply the app's limits to it
+   * (model restriction, token cap, streaming). Returns the failure to send back, or the grant to
+   * scope the response with (null for messages that need no approval)
+   */
+  authorizePageRequest(message: any, origin: string): AccessDenied | { grant: PermissionGrant | null } {
+    const type: string = message.type;
+    if (typeof type !== 'string' || !Object.hasOwn(PAGE_MESSAGE_PERMISSIONS, type)) {
+      return { success: false, error: `Message type ${type} is not available to web pages`, code: 'permission-denied' };
+    }
+    const capability = PAGE_MESSAGE_PERMISSIONS[type];
+    if (capability === null) return { grant: null };
+
+    // Re-approvals replace older entries, but keep the newest if storage still has several
+    const app = Array.from(this.state.approvedApps.values())
+      .filter(entry => entry.origin === origin)
+      .sort((a, b) => b.approvedAt - a.approvedAt)[0];
+    if (!app) {
+      return { success: false, error: `${origin} is not approved to use LLM Control Panel`, code: 'not-approved' };
+    }
+
+    const grant = resolveGrant(app.permissions);
+    if (!grant.capabilities.has(capability)) {
+      return { success: false, error: `${app.name} has not been granted the ${capability} permission`, code: 'permission-denied' };
+    }
+
+    if (MODEL_SCOPED_MESSAGES.has(type)) {
+      const modelId = message.modelId || (type === 'generate-response' ? this.state.currentSelectedModel : null);
+      if (modelId && !isModelAllowed(grant, modelId)) {
+        return { success: false, error: `${app.name} is not allowed to use ${modelId}`, code: 'permission-denied' };
+      }
+    }
+
+    if (type === 'generate-response' || type === 'test-model') {
+      if (grant.maxTokens !== undefined) {
+        const requested = Number(message.options?.maxTokens);
+        const maxTokens = Number.isFinite(requested) && requested > 0 ? Math.min(requested, grant.maxTokens) : grant.maxTokens;
+        message.options = { ...message.options, maxTokens };
+      }
+      message.streamTokens = grant.capabilities.has('stream');
+    }
+
+    return { grant };
+  }
+
   getApprovedApps(): ApprovedApp[] {
     return Array.from(this.state.approvedApps.values());
   }
@@ -473,6 +1250,39 @@ class LLMServiceWorker {
   }
 }
 
+/**
+ * Send a progress message to whoever made a request: the tab for pages and the popped-out panel,
+ * a runtime broadcast for the action popup (which has no tab)
+ */
+function notifySender(sender: chrome.runtime.MessageSender, message: Record<string, unknown>): void {
+  const tabId = sender.tab?.id;
+  const delivery = tabId !== undefined
+    ? chrome.tabs.sendMessage(tabId, message)
+    : chrome.runtime.sendMessage(message);
+  delivery.catch(() => { /* receiver closed or navigated away */ });
+}
+
+// Request ids are chosen by the caller, so scope them to the tab they came from
+function generationJobId(requestId: string, sender: chrome.runtime.MessageSender): string {
+  return `${sender.tab?.id ?? 'extension'}:${requestId}`;
+}
+
+function generationJobContext(message: any, sender: chrome.runtime.MessageSender, pageOrigin: string | null): GenerationJobContext {
+  const requestId: string = message.requestId || `job_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  return {
+    id: generationJobId(requestId, sender),
+    appKey: pageOrigin ?? 'extension',
+    // The user's own chat goes ahead of page requests
+    priority: pageOrigin === null ? 1 : 0,
+    onQueuePosition: message.requestId
+      ? (position) => notifySender(sender, { type: 'generation-queued', requestId: message.requestId, position })
+      : undefined,
+    onKeepAlive: message.requestId
+      ? () => notifySender(sender, { type: 'generation-keepalive', requestId: message.requestId })
+      : undefined
+  };
+}
+
 // Global service worker instance
 const llmServiceWorker = new LLMServiceWorker();
 
@@ -480,11 +1290,35 @@ const llmServiceWorker = new LLMServiceWorker();
 llmServiceWorker.initialize();
 
 // Message listener for communication with other parts of the extension
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // Engine traffic between this worker and the offscreen document is handled by OffscreenEngine
+  if (message?.type === 'engine-progress' || message?.target === 'offscreen') {
+    return false;
+  }
   console.log('Service worker received message:', message);
   
   const handleAsync = async () => {
     try {
+      // Approvals are loaded from storage during startup; a restarted worker must not check against an empty list
+      await llmServiceWorker.initialize();
+
+      // Pages are identified by the sender, never by what they put in the message
+      let grant: PermissionGrant | null = null;
+      const pageOrigin = getPageOrigin(sender);
+      if (pageOrigin !== null) {
+        const access = llmServiceWorker.authorizePageRequest(message, pageOrigin);
+        if ('error' in access) {
+          console.warn(`Refused ${message.type} from ${pageOrigin}: ${access.code}`);
+          return access;
+        }
+        grant = access.grant;
+        if (message.type === 'approvalRequest' && message.appInfo) {
+          message.appInfo = { ...message.appInfo, origin: pageOrigin };
+        } else if (message.type === 'checkAppApproval') {
+          message.origin = pageOrigin;
+        }
+      }
+
       switch (message.type) {
         case 'addModel':
           if (!message.modelConfig) {
@@ -504,11 +1338,41 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
           }
           return await llmServiceWorker.handleDownloadModel(message.modelId);
         
+        case 'discoverVariants':
+          if (!message.modelConfig?.modelId) {
+            return { success: false, error: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleDiscoverVariants(message.modelConfig);
+
+        case 'pauseDownload':
+          if (!message.modelId) {
+            return { success: false, error: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handlePauseDownload(message.modelId);
+
+        case 'resumeDownload':
+          if (!message.modelId) {
+            return { success: false, error: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleResumeDownload(message.modelId);
+
+        case 'cancelDownload':
+          if (!message.modelId) {
+            return { success: false, error: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleCancelDownload(message.modelId);
+
         case 'clearModel':
           if (!message.modelId) {
             return { success: false, message: 'Model ID is required' };
           }
           return await llmServiceWorker.handleClearModel(message.modelId);
+
+        case 'verifyModel':
+          if (!message.modelId) {
+            return { success: false, error: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleVerifyModel(message.modelId);
           
         case 'status':
           return {
@@ -522,6 +1386,18 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
           }
           return await llmServiceWorker.setSelectedModel(message.modelId);
           
+        case 'setRuntimeSettings':
+          return await llmServiceWorker.setRuntimeSettings(message.settings);
+
+        case 'setStorageBackend':
+          return await llmServiceWorker.setStorageBackend(message.backend);
+
+        case 'probeWebNN':
+          return await llmServiceWorker.refreshWebNNCapabilities();
+
+        case 'benchmarkProviders':
+          return await llmServiceWorker.handleBenchmarkProviders(message.modelId);
+
         case 'approvalRequest':
           if (!message.appInfo) {
             return { success: false, message: 'App info is required' };
@@ -532,7 +1408,7 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
           if (!message.requestId || typeof message.approved !== 'boolean') {
             return { success: false, message: 'Request ID and approval status are required' };
           }
-          return await llmServiceWorker.handleApprovalResponse(message.requestId, message.approved);
+          return await llmServiceWorker.handleApprovalResponse(message.requestId, message.approved, message.grantedPermissions);
           
         case 'getApprovedApps':
           return {
@@ -560,6 +1436,76 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
             success: true,
             data: { approved: llmServiceWorker.isAppApproved(message.origin) }
           };
+
+        case 'generate-response': {
+          const job = generationJobContext(message, sender, pageOrigin);
+          const onToken = message.requestId && message.streamTokens !== false
+            ? (token: string, text: string) => notifySender(sender, { type: 'generation-token', requestId: message.requestId, token, text })
+            : undefined;
+          return await llmServiceWorker.handleGenerateResponse(message.messages ?? message.prompt, message.modelId, message.options, job, onToken);
+        }
+
+        case 'test-model':
+          if (!message.modelId) {
+            return { success: false, message: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleGenerateResponse(
+            message.message,
+            message.modelId,
+            message.options,
+            generationJobContext(message, sender, pageOrigin)
+          );
+
+        case 'count-tokens':
+          return await llmServiceWorker.handleCountTokens(message.messages ?? message.prompt, message.modelId);
+
+        case 'cancel-generation':
+          if (!message.requestId) {
+            return { success: false, message: 'Request ID is required' };
+          }
+          return llmServiceWorker.handleCancelGeneration(generationJobId(message.requestId, sender));
+
+        case 'load-model':
+          if (!message.modelId) {
+            return { success: false, message: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleLoadModel(message.modelId);
+
+        case 'unload-model':
+          if (!message.modelId) {
+            return { success: false, message: 'Model ID is required' };
+          }
+          return await llmServiceWorker.handleUnloadModel(message.modelId);
+
+        case 'get-available-models':
+          return {
+            success: true,
+            data: (await llmServiceWorker.getAvailableModels()).filter(model => !grant || isModelAllowed(grant, model.modelId))
+          };
+
+        case 'get-available-providers':
+          return { success: true, data: llmServiceWorker.getStatus().availableProviders };
+
+        case 'get-webnn-devices':
+          return { success: true, data: llmServiceWorker.getStatus().webnnDevices };
+
+        case 'get-preferred-webnn-device':
+          return { success: true, data: llmServiceWorker.getStatus().preferredDevice };
+
+        case 'get-cache-stats':
+          return { success: true, data: await llmServiceWorker.getCacheStats(grant) };
+
+        case 'get-cached-models':
+          return { success: true, data: await llmServiceWorker.getCachedModels(grant) };
+
+        case 'clear-all-cached-models':
+          return await llmServiceWorker.handleClearAllCachedModels();
+
+        case 'cleanup-old-cached-models':
+          if (typeof message.maxAge !== 'number' || message.maxAge < 0) {
+            return { success: false, message: 'maxAge (ms) is required' };
+          }
+          return await llmServiceWorker.handleCleanupOldCachedModels(message.maxAge);
           
         default:
           return { success: false, message: 'Unknown message type' };
@@ -570,8 +1516,13 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     }
   };
   
-  // Handle async operations
-  handleAsync().then(sendResponse);
+  // Handle async operations; failures always carry `error` (older handlers only set `message`)
+  handleAsync().then((response: { success: boolean; message?: string; error?: string }) => {
+    if (!response.success && !response.error) {
+      response.error = response.message;
+    }
+    sendResponse(response);
+  });
   return true; // Keep message channel open for async response
 });
 
@@ -11,6 +11,27 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       domain: window.location.hostname
     }
     sendResponse(pageInfo)
+  } else if (message.type === 'generation-token') {
+    // Relay streamed tokens to the page, tagged with the id of the page's request
+    window.postMessage({
+      type: 'llm-control-panel-stream',
+      id: message.requestId,
+      token: message.token,
+      text: message.text
+    }, '*')
+  } else if (message.type === 'generation-queued') {
+    // Queue position while the request waits for the model (0 once it starts)
+    window.postMessage({
+      type: 'llm-control-panel-queue',
+      id: message.requestId,
+      position: message.position
+    }, '*')
+  } else if (message.type === 'generation-keepalive') {
+    // Sent while the request runs without output yet, e.g. while its model loads
+    window.postMessage({
+      type: 'llm-control-panel-keepalive',
+      id: message.requestId
+    }, '*')
   }
 })
 
@@ -19,253 +40,79 @@ const script = document.createElement('script')
 script.src = chrome.runtime.getURL('api.js')
 document.head.appendChild(script)
 
+// Page actions and the service worker message each one is forwarded as
+const SERVICE_WORKER_MESSAGES: Record<string, (data: any, id: string) => Record<string, unknown>> = {
+  'generate-response': ({ prompt, messages, modelId, options }, id) => ({ type: 'generate-response', prompt, messages, modelId, options, requestId: id }),
+  'test-model': ({ modelId, message, options }, id) => ({ type: 'test-model', modelId, message, options, requestId: id }),
+  'cancel-generation': ({ requestId }) => ({ type: 'cancel-generation', requestId }),
+  'load-model': ({ modelId, useWorker }) => ({ type: 'load-model', modelId, useWorker }),
+  'unload-model': ({ modelId, useWorker }) => ({ type: 'unload-model', modelId, useWorker }),
+  'download-model': ({ modelId }) => ({ type: 'downloadModel', modelId }),
+  'get-available-models': () => ({ type: 'get-available-models' }),
+  'get-available-providers': () => ({ type: 'get-available-providers' }),
+  'get-webnn-devices': () => ({ type: 'get-webnn-devices' }),
+  'get-preferred-webnn-device': () => ({ type: 'get-preferred-webnn-device' }),
+  'get-cache-stats': () => ({ type: 'get-cache-stats' }),
+  'get-cached-models': () => ({ type: 'get-cached-models' }),
+  'clear-all-cached-models': () => ({ type: 'clear-all-cached-models' }),
+  'cleanup-old-cached-models': ({ maxAge }) => ({ type: 'cleanup-old-cached-models', maxAge }),
+  'approval-request': ({ appInfo }) => ({ type: 'approvalRequest', appInfo }),
+  'check-app-approval': ({ origin }) => ({ type: 'checkAppApproval', origin })
+}
+
+// Error carrying the service worker's error code through to the page
+class ForwardedError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message)
+  }
+}
+
+// Send a message to the service worker and resolve with its `data`
+function forwardToServiceWorker(message: Record<string, unknown>): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      if (chrome.runtime.lastError || !response) {
+        reject(new ForwardedError(chrome.runtime.lastError?.message || 'No response from extension', 'unavailable'))
+      } else if (response.success) {
+        resolve(response.data)
+      } else {
+        reject(new ForwardedError(response.error || 'Request failed', response.code))
+      }
+    })
+  })
+}
+
 // Listen for messages from the page context
 window.addEventListener('message', async (event) => {
-  if (event.data.type === 'llm-control-panel-request') {
-    try {
-      let response
-      const { action, data, id } = event.data
-      
-      // Handle different actions
-      switch (action) {
-        case 'ping':
-          response = { success: true }
-          break
-          
-        case 'generate-response':
-          const { prompt, modelId } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'generate-response',
-              prompt,
-              modelId
-            }, (response) => {
-              if (response.success) {
-                resolve(response.response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'test-model':
-          const { modelId: testModelId, message } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'test-model',
-              modelId: testModelId,
-              message
-            }, (response) => {
-              if (response.success) {
-                resolve(response.response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'load-model':
-          const { modelId: loadModelId, useWorker } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'load-model',
-              modelId: loadModelId,
-              useWorker
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'unload-model':
-          const { modelId: unloadModelId, useWorker: unloadUseWorker } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'unload-model',
-              modelId: unloadModelId,
-              useWorker: unloadUseWorker
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-available-models':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-available-models'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-available-providers':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-available-providers'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-webnn-devices':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-webnn-devices'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-preferred-webnn-device':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-preferred-webnn-device'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-cache-stats':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-cache-stats'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'get-cached-models':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'get-cached-models'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'clear-all-cached-models':
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'clear-all-cached-models'
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'cleanup-old-cached-models':
-          const { maxAge } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'cleanup-old-cached-models',
-              maxAge
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'approval-request':
-          const { appInfo } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'approvalRequest',
-              appInfo
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        case 'check-app-approval':
-          const { origin } = data
-          response = await new Promise((resolve, reject) => {
-            chrome.runtime.sendMessage({
-              type: 'checkAppApproval',
-              origin
-            }, (response) => {
-              if (response.success) {
-                resolve(response)
-              } else {
-                reject(new Error(response.error))
-              }
-            })
-          })
-          break
-          
-        default:
-          throw new Error(`Unknown action: ${action}`)
-      }
-      
-      // Send response back to page context
-      window.postMessage({
-        type: 'llm-control-panel-response',
-        id: id,
-        success: true,
-        response
-      }, '*')
-    } catch (error: any) {
-      // Send error back to page context
-      window.postMessage({
-        type: 'llm-control-panel-response',
-        id: event.data.id,
-        success: false,
-        error: error.message
-      }, '*')
+  if (event.source !== window || event.data?.type !== 'llm-control-panel-request') return
+
+  const { action, data = {}, id } = event.data
+  try {
+    let response
+    if (action === 'ping') {
+      response = { success: true }
+    } else if (Object.hasOwn(SERVICE_WORKER_MESSAGES, action)) {
+      response = await forwardToServiceWorker(SERVICE_WORKER_MESSAGES[action](data, id))
+    } else {
+      throw new ForwardedError(`Unknown action: ${action}`, 'invalid-argument')
     }
+
+    // Send response back to page context
+    window.postMessage({
+      type: 'llm-control-panel-response',
+      id,
+      success: true,
+      response
+    }, '*')
+  } catch (error: any) {
+    // Send error back to page context
+    window.postMessage({
+      type: 'llm-control-panel-response',
+      id,
+      success: false,
+      error: error.message,
+      code: error.code
+    }, '*')
   }
 })
 
@@ -0,0 +1,78 @@
+/**
+ * Conversation prompts
+ * Chat messages are rendered with the tokenizer's own chat template (from `tokenizer_config.json`,
+ * or `ModelConfig.runtime.chatTemplate`, which replaces it); models without either get a plain
+ * role-prefixed transcript. Plain string prompts are still encoded as-is for completion-style use
+ */
+import type { PreTrainedTokenizer } from '@huggingface/transformers';
+
+export const CHAT_ROLES = ['system', 'user', 'assistant'] as const;
+
+export type ChatRole = typeof CHAT_ROLES[number];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// What the providers accept: a raw prompt or a conversation
+export type GenerationInput = string | ChatMessage[];
+
+const FALLBACK_LABELS: Record<ChatRole, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant'
+};
+
+const isChatRole = (value: unknown): value is ChatRole =>
+  typeof value === 'string' && (CHAT_ROLES as readonly string[]).includes(value);
+
+/**
+ * Validate a conversation coming from outside the extension.
+ * Returns null unless it is a non-empty array of `{ role, content }` messages with known roles
+ */
+export function normalizeChatMessages(value: unknown): ChatMessage[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const messages: ChatMessage[] = [];
+  for (const entry of value) {
+    if (!entry || !isChatRole(entry.role) || typeof entry.content !== 'string') return null;
+    messages.push({ role: entry.role, content: entry.content });
+  }
+  return messages;
+}
+
+export const hasChatTemplate = (tokenizer: PreTrainedTokenizer): boolean =>
+  Boolean(tokenizer.chat_template);
+
+// Used when the model ships no template; ends with an open assistant turn for the model to complete
+export function renderFallbackPrompt(messages: ChatMessage[]): string {
+  const turns = messages.map(message => `${FALLBACK_LABELS[message.role]}: ${message.content.trim()}`);
+  return `${turns.join('\n\n')}\n\n${FALLBACK_LABELS.assistant}:`;
+}
+
+/**
+ * Prompt token ids for the decode loop
+ */
+export function encodePrompt(tokenizer: PreTrainedTokenizer, input: GenerationInput): number[] {
+  if (typeof input === 'string') {
+    return tokenizer.encode(input);
+  }
+  if (hasChatTemplate(tokenizer)) {
+    try {
+      // The template already adds BOS and the like, so the ids are not encoded with special tokens again
+      return tokenizer.apply_chat_template(input, {
+        add_generation_prompt: true,
+        tokenize: true,
+        return_tensor: false
+      }) as number[];
+    } catch (error) {
+      // Some templates reject conversations they do not expect, e.g. system messages or two user turns in a row
+      console.warn('Chat template failed, using the plain transcript:', error);
+    }
+  }
+  return tokenizer.encode(renderFallbackPrompt(input));
+}
+
+// Short description of the input for logging
+export const describeInput = (input: GenerationInput): string =>
+  typeof input === 'string' ? input : `${input.length} chat messages`;
@@ -0,0 +1,183 @@
+/**
+ * Context window management shared by the ONNX providers
+ * Counts prompt tokens against the model's `max_position_embeddings` and, when a conversation
+ * would not leave room for the completion, applies the request's `contextPolicy`:
+ * - `drop-oldest`: drop the oldest messages, the system prompt included
+ * - `keep-system`: drop the oldest turns but always keep leading system messages
+ * - `summarize`: like `keep-system`, but the dropped turns are replaced by a model-written summary
+ */
+import type { ChatMessage, GenerationInput } from './chat-template';
+import type { SamplingOptions } from './sampler';
+
+export const CONTEXT_POLICIES = ['drop-oldest', 'keep-system', 'summarize'] as const;
+
+export type ContextPolicy = typeof CONTEXT_POLICIES[number];
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = 'keep-system';
+
+// For configs without max_position_embeddings / n_positions
+export const DEFAULT_CONTEXT_LENGTH = 2048;
+
+// Longest summary written for the `summarize` policy
+export const SUMMARY_MAX_TOKENS = 160;
+
+export interface ContextOptions {
+  contextPolicy?: ContextPolicy;
+}
+
+// Everything a generation request can carry besides the input
+export type GenerationOptions = SamplingOptions & ContextOptions;
+
+export interface ContextUsage {
+  contextLength: number;
+  promptTokens: number;
+  // Completion budget after fitting, at most the requested maxTokens
+  maxTokens: number;
+  // Messages (or, for plain prompts, tokens) left out to make the prompt fit
+  droppedMessages: number;
+  droppedTokens: number;
+  summarized: boolean;
+}
+
+export class ContextOverflowError extends Error {
+  constructor(promptTokens: number, contextLength: number) {
+    super(`The prompt needs ${promptTokens} tokens but the model's context window is ${contextLength}`);
+    this.name = 'ContextOverflowError';
+  }
+}
+
+export const isContextPolicy = (value: unknown): value is ContextPolicy =>
+  typeof value === 'string' && (CONTEXT_POLICIES as readonly string[]).includes(value);
+
+export const resolveContextLength = (maxPositionEmbeddings?: number): number =>
+  maxPositionEmbeddings && maxPositionEmbeddings > 0 ? maxPositionEmbeddings : DEFAULT_CONTEXT_LENGTH;
+
+export interface FitToContextParams {
+  input: GenerationInput;
+  encode: (input: GenerationInput) => number[];
+  contextLength: number;
+  maxTokens: number;
+  policy?: ContextPolicy;
+  // Writes the summary for the `summarize` policy; without it the policy behaves like `keep-system`
+  summarize?: (messages: ChatMessage[]) => Promise<string>;
+}
+
+export interface FittedPrompt {
+  input: GenerationInput;
+  promptIds: number[];
+  usage: ContextUsage;
+}
+
+// A long completion must not squeeze the history down to nothing; past this share it is shortened instead
+const reserveFor = (maxTokens: number, contextLength: number): number =>
+  Math.max(1, Math.min(maxTokens, Math.floor(contextLength / 4)));
+
+// Drop the first turn and any assistant turns it leaves in front, always keeping the last message
+const dropFirstTurn = (turns: ChatMessage[]): ChatMessage[] => {
+  let rest = turns.slice(1);
+  while (rest.length > 1 && rest[0].role === 'assistant') {
+    rest = rest.slice(1);
+  }
+  return rest;
+};
+
+/**
+ * Shorten the input until the prompt plus a completion budget fits the context window
+ */
+export async function fitToContext(params: FitToContextParams): Promise<FittedPrompt> {
+  const { input, encode, contextLength, maxTokens } = params;
+  const policy = params.policy ?? DEFAULT_CONTEXT_POLICY;
+  const budget = contextLength - reserveFor(maxTokens, contextLength);
+
+  const finish = (fitted: GenerationInput, promptIds: number[], dropped: Partial<ContextUsage> = {}): FittedPrompt => {
+    if (promptIds.length >= contextLength) {
+      throw new ContextOverflowError(promptIds.length, contextLength);
+    }
+    return {
+      input: fitted,
+      promptIds,
+      usage: {
+        contextLength,
+        promptTokens: promptIds.length,
+        maxTokens: Math.min(maxTokens, contextLength - promptIds.length),
+        droppedMessages: 0,
+        droppedTokens: 0,
+        summarized: false,
+        ...dropped
+      }
+    };
+  };
+
+  const promptIds = encode(input);
+  if (promptIds.length <= budget) {
+    return finish(input, promptIds);
+  }
+
+  // Plain prompts have no turns to drop; keep the end, which is what the model continues from, behind
+  // the special tokens the tokenizer starts every prompt with (e.g. BOS)
+  if (typeof input === 'string') {
+    const prefix = encode('');
+    let lead = 0;
+    while (lead < prefix.length && lead < promptIds.length && promptIds[lead] === prefix[lead]) lead++;
+    const tail = Math.max(0, budget - lead);
+    const kept = [...promptIds.slice(0, lead), ...promptIds.slice(promptIds.length - tail)];
+    return finish(input, kept, { droppedTokens: promptIds.length - kept.length });
+  }
+
+  const keepSystem = policy !== 'drop-oldest';
+  const leadingSystem = keepSystem ? input.findIndex(m => m.role !== 'system') : 0;
+  const system = input.slice(0, leadingSystem === -1 ? input.length : leadingSystem);
+  const turns = input.slice(system.length);
+
+  // Drop from the front, always keeping the last message, and never start on an assistant turn
+  const dropped: ChatMessage[] = [];
+  let kept = turns;
+  let ids = promptIds;
+  while (ids.length > budget && kept.length > 1) {
+    const rest = dropFirstTurn(kept);
+    dropped.push(...kept.slice(0, kept.length - rest.length));
+    kept = rest;
+    ids = encode([...system, ...kept]);
+  }
+
+  if (policy !== 'summarize' || !params.summarize || dropped.length === 0) {
+    return finish([...system, ...kept], ids, { droppedMessages: dropped.length });
+  }
+
+  // The summary joins the system prompt, since many templates allow only one system message
+  const summary = (await params.summarize(dropped)).trim();
+  if (!summary) {
+    return finish([...system, ...kept], ids, { droppedMessages: dropped.length });
+  }
+  const note = `Summary of the earlier conversation: ${summary}`;
+  const withSummary = (): ChatMessage[] => system.length > 0
+    ? [{ ...system[0], content: `${system[0].content}\n\n${note}` }, ...system.slice(1), ...kept]
+    : [{ role: 'system', content: note }, ...kept];
+
+  let summarized = withSummary();
+  ids = encode(summarized);
+  // The summary takes room too; drop further turns if it pushed the prompt over again
+  let droppedAfterSummary = 0;
+  while (ids.length > budget && kept.length > 1) {
+    const rest = dropFirstTurn(kept);
+    droppedAfterSummary += kept.length - rest.length;
+    kept = rest;
+    summarized = withSummary();
+    ids = encode(summarized);
+  }
+  return finish(summarized, ids, { droppedMessages: dropped.length + droppedAfterSummary, summarized: true });
+}
+
+/**
+ * Conversation asking the model to summarise `messages`, cut to fit a window of `contextLength` tokens
+ */
+export function buildSummaryPrompt(messages: ChatMessage[], contextLength: number): ChatMessage[] {
+  // Roughly three characters per token, leaving room for the instructions and the summary itself
+  const maxChars = Math.max(256, (contextLength - SUMMARY_MAX_TOKENS - 64) * 3);
+  const transcript = messages.map(m => `${m.role}: ${m.content}`).join('\n');
+  const clipped = transcript.length > maxChars ? transcript.slice(-maxChars) : transcript;
+  return [{
+    role: 'user',
+    content: `Summarize the key facts, decisions and open questions of this conversation in a few sentences:\n\n${clipped}`
+  }];
+}
@@ -0,0 +1,181 @@
+/**
+ * Autoregressive decode loop shared by the ONNX providers
+ * Runs the prompt through the session once, then feeds `present.*` outputs back as
+ * `past_key_values.*` one token at a time until EOS or `maxTokens` is reached
+ */
+import type { InferenceSession, Tensor } from 'onnxruntime-web/all';
+import type { PreTrainedTokenizer } from '@huggingface/transformers';
+import type { ModelGeometry } from '../utils/model.list';
+import type { ContextUsage } from './context-window';
+
+export type KvCacheType = 'float32' | 'float16';
+
+export interface DecodeSession {
+  session: InferenceSession;
+  inputNames: string[];
+  outputNames: string[];
+}
+
+export interface DecodeLoopParams {
+  ort: typeof import('onnxruntime-web/all');
+  session: DecodeSession;
+  geometry: ModelGeometry;
+  kvType: KvCacheType;
+  promptIds: number[];
+  maxTokens: number;
+  // Picks the next token from the last position's logits
+  sampleNext: (logits: Float32Array, generatedIds: number[]) => number;
+  onToken?: (tokenId: number) => void | Promise<void>;
+  // Checked before every step; aborting ends the loop with the tokens generated so far
+  signal?: AbortSignal;
+}
+
+export type FinishReason = 'stop' | 'length' | 'cancelled';
+
+export interface DecodeLoopResult {
+  tokenIds: number[];
+  finishReason: FinishReason;
+}
+
+// What the providers hand back to their callers
+export interface GenerationResult {
+  text: string;
+  finishReason: FinishReason;
+  tokenCount: number;
+  // How the prompt was fitted into the context window, and what is left of it after the completion
+  context?: ContextUsage & { remainingTokens: number };
+}
+
+export type TokenCallback = (token: string, text: string) => void;
+
+/**
+ * Turns generated token ids into text deltas for streaming.
+ * Decodes the whole completion each step so multi-token characters and leading spaces come out right.
+ * A character whose bytes are split over tokens decodes to U+FFFD until its last token arrives, so
+ * trailing U+FFFD characters are held back rather than streamed
+ */
+export function createTextStreamer(tokenizer: PreTrainedTokenizer, onToken: TokenCallback): (tokenId: number) => void {
+  const generatedIds: number[] = [];
+  let streamedText = '';
+  return (tokenId) => {
+    generatedIds.push(tokenId);
+    const text = tokenizer.decode(generatedIds, { skip_special_tokens: true }).replace(/\uFFFD+$/, '');
+    if (text.length > streamedText.length && text.startsWith(streamedText)) {
+      onToken(text.slice(streamedText.length), text);
+      streamedText = text;
+    }
+  };
+}
+
+// Half precision logits come back as raw uint16 bits when Float16Array is not available
+function halfToFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x03ff;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+function lastPositionLogits(logits: Tensor): Float32Array {
+  const dims = logits.dims;
+  const vocabSize = dims[dims.length - 1];
+  const seqLen = dims.length === 3 ? dims[1] : 1;
+  const start = (seqLen - 1) * vocabSize;
+  const data = logits.data;
+  if (data instanceof Float32Array) {
+    return data.slice(start, start + vocabSize);
+  }
+  const out = new Float32Array(vocabSize);
+  const isRawHalf = data instanceof Uint16Array;
+  for (let i = 0; i < vocabSize; i++) {
+    const value = (data as ArrayLike<number>)[start + i];
+    out[i] = isRawHalf ? halfToFloat(value) : Number(value);
+  }
+  return out;
+}
+
+function emptyKvTensor(ort: DecodeLoopParams['ort'], kvType: KvCacheType, geometry: ModelGeometry): Tensor {
+  const dims = [1, geometry.numKvHeads, 0, geometry.headDim];
+  return kvType === 'float16'
+    ? new ort.Tensor('float16', new Uint16Array(0), dims)
+    : new ort.Tensor('float32', new Float32Array(0), dims);
+}
+
+export async function runDecodeLoop(params: DecodeLoopParams): Promise<DecodeLoopResult> {
+  const { ort, session, geometry, kvType, promptIds, maxTokens, sampleNext, onToken, signal } = params;
+  if (promptIds.length === 0) {
+    throw new Error('Prompt produced no tokens');
+  }
+
+  const logitsName = session.outputNames.includes('logits') ? 'logits' : session.outputNames[0];
+  // Models exported without a KV cache need the full sequence on every step
+  const usesKvCache = session.inputNames.some(name => name.startsWith('past_key_values.'));
+  const pastKeyValues = new Map<string, Tensor>();
+  const generatedIds: number[] = [];
+  let stepIds = promptIds;
+  let pastLength = 0;
+
+  while (generatedIds.length < maxTokens) {
+    if (signal?.aborted) {
+      pastKeyValues.forEach(tensor => tensor.dispose());
+      return { tokenIds: generatedIds, finishReason: 'cancelled' };
+    }
+
+    const totalLength = pastLength + stepIds.length;
+    const feeds: Record<string, Tensor> = {};
+
+    for (const inputName of session.inputNames) {
+      if (inputName === 'input_ids') {
+        feeds[inputName] = new ort.Tensor('int64', BigInt64Array.from(stepIds, id => BigInt(id)), [1, stepIds.length]);
+      } else if (inputName === 'attention_mask') {
+        feeds[inputName] = new ort.Tensor('int64', new BigInt64Array(totalLength).fill(1n), [1, totalLength]);
+      } else if (inputName === 'position_ids') {
+        const positionIds = new BigInt64Array(stepIds.length);
+        for (let i = 0; i < stepIds.length; i++) {
+          positionIds[i] = BigInt(pastLength + i);
+        }
+        feeds[inputName] = new ort.Tensor('int64', positionIds, [1, stepIds.length]);
+      } else if (inputName === 'use_cache_branch') {
+        // Merged decoders switch between the prefill and the cached branch
+        feeds[inputName] = new ort.Tensor('bool', [pastLength > 0], [1]);
+      } else if (inputName.startsWith('past_key_values.')) {
+        feeds[inputName] = pastKeyValues.get(inputName) ?? emptyKvTensor(ort, kvType, geometry);
+      }
+    }
+
+    const results = await session.session.run(feeds);
+    const logits = results[logitsName];
+    if (!logits) {
+      throw new Error('No logits output found');
+    }
+
+    // Carry the cache forward: present.N.key -> past_key_values.N.key
+    for (const outputName of session.outputNames) {
+      if (!outputName.startsWith('present')) continue;
+      const pastName = outputName.replace(/^present/, 'past_key_values');
+      pastKeyValues.get(pastName)?.dispose();
+      pastKeyValues.set(pastName, results[outputName]);
+    }
+
+    const nextId = sampleNext(lastPositionLogits(logits), generatedIds);
+    logits.dispose();
+
+    if (geometry.eosTokenIds.includes(nextId)) {
+      pastKeyValues.forEach(tensor => tensor.dispose());
+      return { tokenIds: generatedIds, finishReason: 'stop' };
+    }
+
+    generatedIds.push(nextId);
+    await onToken?.(nextId);
+    if (usesKvCache) {
+      pastLength = totalLength;
+      stepIds = [nextId];
+    } else {
+      stepIds = [...promptIds, ...generatedIds];
+    }
+  }
+
+  pastKeyValues.forEach(tensor => tensor.dispose());
+  return { tokenIds: generatedIds, finishReason: 'length' };
+}
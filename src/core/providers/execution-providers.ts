@@ -0,0 +1,85 @@
+/**
+ * Execution provider selection shared by `BaseONNXHandler` and the worker
+ * Providers are tried one at a time in preference order; the first one that creates a session wins,
+ * and WASM is always kept as the last resort
+ */
+import type { InferenceSession } from 'onnxruntime-web/all';
+
+export const EXECUTION_PROVIDERS = ['webnn', 'webgpu', 'wasm'] as const;
+
+export type ExecutionProvider = typeof EXECUTION_PROVIDERS[number];
+
+export const WEBNN_DEVICE_TYPES = ['npu', 'gpu', 'cpu'] as const;
+
+export type WebNNDeviceType = typeof WEBNN_DEVICE_TYPES[number];
+
+export const isExecutionProvider = (value: unknown): value is ExecutionProvider =>
+  typeof value === 'string' && (EXECUTION_PROVIDERS as readonly string[]).includes(value);
+
+export const isWebNNDeviceType = (value: unknown): value is WebNNDeviceType =>
+  typeof value === 'string' && (WEBNN_DEVICE_TYPES as readonly string[]).includes(value);
+
+/**
+ * Order to try providers in: `order` (the user's ranking, default webnn > webgpu > wasm)
+ * without the providers this machine lacks
+ */
+export function resolveProviderOrder(available: string[], order: readonly ExecutionProvider[] = EXECUTION_PROVIDERS): ExecutionProvider[] {
+  return order.filter(provider => provider === 'wasm' || available.includes(provider));
+}
+
+// The .onnx file as bytes, or as a URL ONNX Runtime fetches itself (e.g. an object URL of a stored Blob)
+export type ModelSource = ArrayBuffer | string;
+
+export interface ProviderSession {
+  session: InferenceSession;
+  provider: ExecutionProvider;
+}
+
+/**
+ * Create a session on exactly `provider`, without falling back; throws when the provider cannot run the model
+ * @param webnnDeviceType Device the WebNN provider should target; ORT defaults to cpu otherwise
+ */
+export function createProviderSession(
+  ort: typeof import('onnxruntime-web/all'),
+  modelData: ModelSource,
+  sessionOptions: InferenceSession.SessionOptions,
+  provider: ExecutionProvider,
+  webnnDeviceType?: WebNNDeviceType
+): Promise<InferenceSession> {
+  const executionProvider = provider === 'webnn' && webnnDeviceType
+    ? { name: 'webnn', deviceType: webnnDeviceType }
+    : provider;
+  const options: InferenceSession.SessionOptions = {
+    ...sessionOptions,
+    executionProviders: [executionProvider] as InferenceSession.SessionOptions['executionProviders']
+  };
+  return typeof modelData === 'string'
+    ? ort.InferenceSession.create(modelData, options)
+    : ort.InferenceSession.create(modelData, options);
+}
+
+/**
+ * Create a session with the first provider in `providers` that works
+ */
+export async function createSessionWithFallback(
+  ort: typeof import('onnxruntime-web/all'),
+  modelData: ModelSource,
+  sessionOptions: InferenceSession.SessionOptions,
+  providers: string[],
+  webnnDeviceType?: WebNNDeviceType
+): Promise<ProviderSession> {
+  const order = providers.filter(isExecutionProvider);
+  if (!order.includes('wasm')) order.push('wasm');
+
+  for (const provider of order) {
+    try {
+      const session = await createProviderSession(ort, modelData, sessionOptions, provider, webnnDeviceType);
+      console.log(`Successfully loaded model with provider: ${provider}`);
+      return { session, provider };
+    } catch (error) {
+      console.warn(`Failed to load model with provider ${provider}:`, error);
+      console.info(`Trying next provider...`);
+    }
+  }
+  throw new Error('Failed to load model with any available provider');
+}
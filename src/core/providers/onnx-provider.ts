@@ -1,8 +1,16 @@
 import type { InferenceSession } from 'onnxruntime-web/all';
-import type{ ModelDataList, ModelConfig } from '@/core/utils/model.list';
+import type{ ModelDataList, ModelConfig, ModelGeometry } from '@/core/utils/model.list';
 import type { PreTrainedTokenizer } from '@huggingface/transformers';
+import type { GenerationResult, KvCacheType, TokenCallback } from './decode-loop';
+import type { GenerationInput } from './chat-template';
+import type { GenerationOptions } from './context-window';
+import type { ModelMeta, StorageStats } from '@/core/utils/fetchchunkstore';
+import type { GraphOptimizationLevel, RuntimeSettings } from '@/core/utils/runtime-settings';
+import type { BenchmarkRun } from '@/core/utils/provider-benchmark';
+import type { WebNNDeviceType } from './execution-providers';
 
 import { WebNNUtils } from '../utils/webnn-utils'
+import { loadLatestBenchmark, rankProvidersBySpeed } from '../utils/provider-benchmark'
 // import { ModelCache } from '../../utils/model-cache'
 
 export interface ONNXProviderConfig {
@@ -10,13 +18,13 @@ export interface ONNXProviderConfig {
   modelPath?: string
   modelData?: ArrayBuffer
   optimizationLevel?: 'all' | 'basic' | 'disabled'
-  graphOptimizationLevel?: 'all' | 'basic' | 'disabled'
+  graphOptimizationLevel?: GraphOptimizationLevel
   enableCpuMemArena?: boolean
   enableMemPattern?: boolean
   executionMode?: 'sequential' | 'parallel'
   extra?: Record<string, any>
   webnnConfig?: {
-    deviceType?: 'npu' | 'gpu' | 'cpu'
+    deviceType?: WebNNDeviceType
     deviceName?: string
     optimizationLevel?: 'all' | 'basic' | 'disabled'
   }
@@ -29,6 +37,7 @@ export interface ONNXSession {
   provider: string
   inputNames: string[]
   outputNames: string[]
+  kvType: KvCacheType
 }
 
 // Model URLs for downloading actual models
@@ -47,27 +56,32 @@ export abstract class BaseONNXHandler {
   protected currentModelId: string | null = null
   protected availableProviders: string[] = []
   protected webnnUtils: WebNNUtils
+  // The Settings tab's choices, read once while the providers initialise
+  protected runtimeSettings?: RuntimeSettings
+  // Latest provider benchmark on this machine, for ranking providers by measured speed
+  protected benchmark: BenchmarkRun | null = null
   // protected modelCache: ModelCache
   protected ort?: typeof import('onnxruntime-web/all');
-  protected eosTokenId?: string;
-  protected numLayers?: number;
-  protected kvDims?: [number, number, number, number];
+  protected geometry?: ModelGeometry;
   protected tokenizer?: PreTrainedTokenizer;
+  // Resolves once the runtime and providers are set up
+  protected ready: Promise<void>;
 
   // abstract loadModel(modelId: string, onnxConfig?: ONNXProviderConfig): Promise<boolean>;
   abstract addApprovedModel(modelId: string, modelConfig?: Partial<ModelConfig>): Promise<boolean>;
-  abstract generateResponse(message: string, options?: {
-    maxTokens?: number
-    temperature?: number
-    topP?: number
-  }): Promise<string>;
+  abstract generateResponse(input: GenerationInput, options?: GenerationOptions, onToken?: TokenCallback, signal?: AbortSignal): Promise<GenerationResult>;
   abstract unloadModel(modelId: string): Promise<void>;
   
 
   constructor() {
     this.webnnUtils = WebNNUtils.getInstance()
     // this.modelCache = ModelCache.getInstance()
-    this.initializeProviders()
+    this.ready = this.initializeProviders()
+  }
+
+  // Share the caller's registry so loads resolve the same configs the caller manages
+  setModelList(modelList: ModelDataList): void {
+    this.modelList = modelList
   }
 
   protected async initializeProviders(): Promise<void> {
@@ -83,6 +97,10 @@ export abstract class BaseONNXHandler {
       }
 
       await this.webnnUtils.initialize()
+
+      const { loadRuntimeSettings, applyWasmSettings } = await import('@/core/utils/runtime-settings')
+      this.runtimeSettings = await loadRuntimeSettings()
+      this.benchmark = await loadLatestBenchmark()
       
       const availableProviders = ['webnn', 'webgpu', 'wasm']
       console.log('Available ONNX providers:', availableProviders)
@@ -91,13 +109,7 @@ export abstract class BaseONNXHandler {
       
       // Configure ONNX environment
       if (this.ort && this.ort.env) {
-        // Handle hardwareConcurrency more gracefully
-        const numThreads = (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) 
-          ? navigator.hardwareConcurrency 
-          : 4
-        this.ort.env.wasm.numThreads = numThreads
-        this.ort.env.wasm.simd = true
-        this.ort.env.wasm.proxy = true
+        applyWasmSettings(this.ort.env, this.runtimeSettings)
       }
       
       console.log('ONNX Handler initialized with providers:', this.availableProviders)
@@ -107,30 +119,35 @@ export abstract class BaseONNXHandler {
     }
   }
 
+  // Measured speed first when a benchmark ran, then the Settings tab's order (default webnn > webgpu > wasm)
   protected getPreferredProviderOrder(availableProviders: string[]): string[] {
     const orderedProviders: string[] = []
-    
-    if (availableProviders.includes('webnn') && this.webnnUtils.isWebNNAvailable()) {
-      const preferredDevice = this.webnnUtils.getPreferredDevice()
-      if (preferredDevice) {
+    const configured = this.runtimeSettings?.providerOrder ?? ['webnn', 'webgpu', 'wasm']
+    const order = this.runtimeSettings?.rankByBenchmark === false ? configured : rankProvidersBySpeed(configured, this.benchmark)
+
+    for (const provider of order) {
+      if (!availableProviders.includes(provider)) continue
+      if (provider === 'webnn') {
+        const preferredDevice = this.webnnUtils.isWebNNAvailable() ? this.webnnUtils.getPreferredDevice() : null
+        if (!preferredDevice) continue
         console.log(`WebNN available with preferred device: ${preferredDevice.name} (${preferredDevice.type})`)
-        orderedProviders.push('webnn')
       }
-    }
-    
-    if (availableProviders.includes('webgpu')) {
-      orderedProviders.push('webgpu')
-    }
-    
-    if (availableProviders.includes('wasm')) {
-      orderedProviders.push('wasm')
+      orderedProviders.push(provider)
     }
     
     return orderedProviders.length > 0 ? orderedProviders : ['wasm']
   }
 
+  // A device pinned in the config, the model's profile or the Settings tab wins over the detected one
+  protected getWebNNDeviceType(config?: ONNXProviderConfig, modelDevice?: WebNNDeviceType): WebNNDeviceType | undefined {
+    const pinned = this.runtimeSettings?.webnnDeviceType
+    return config?.webnnConfig?.deviceType
+      ?? modelDevice
+      ?? (pinned && pinned !== 'auto' ? pinned : this.webnnUtils.getPreferredDevice()?.type)
+  }
+
 
-  protected async downloadModel(modelId: string): Promise<ArrayBuffer | null> {
+  protected async downloadModel(modelId: string): Promise<Blob | null> {
     try {
       if(!this.modelList) {
         throw new Error('Model list not initialized');
@@ -140,7 +157,7 @@ export abstract class BaseONNXHandler {
         throw new Error(`Model ${modelId} not found in approved model list`);
       }
       const { OnnxModelFetch } = await import('@/core/utils/model.list');
-      const { loadOrFetchModel } = await import('@/core/utils/fetchchunkstore');
+      const { loadOrFetchModelBlob } = await import('@/core/utils/fetchchunkstore');
       const progressFn = ({type, msg, progress, part}: {type:string, msg: string, progress: number, part: string}) => {
         console.log(`${type}//${msg} ${progress} ${part}`);
       }
@@ -149,16 +166,12 @@ export abstract class BaseONNXHandler {
       await OnnxModelFetch(modelConfig, progressFn);
       
       // Load the stored model data
-      const modelData = await loadOrFetchModel(
+      const modelData = await loadOrFetchModelBlob(
         `${modelConfig.urlBase}/${modelConfig.modelId}/${modelConfig.repoBase}/${modelConfig.onnxDir}/${modelConfig.modelFileName}`,
         modelConfig.modelId
       );
-      
-      if(!modelData){
-        throw new Error(`Model ${modelId} not loaded`);
-      }
 
-      console.log(`Downloaded model ${modelId} (${this.formatBytes(modelData.byteLength)})`)
+      console.log(`Downloaded model ${modelId} (${this.formatBytes(modelData.size)})`)
       
       return modelData;
     } catch (error) {
@@ -175,13 +188,18 @@ export abstract class BaseONNXHandler {
       this.currentModelId = modelId;
       return true;
     }
+    await this.ready
     try {
+      // Explicit config first, then the model's runtime profile, then the Settings tab
+      const profile = this.modelList?.getModelConfig(modelId)?.runtime
       const sessionOptions: any = {
-        executionProviders: config?.executionProviders || this.availableProviders,
-        graphOptimizationLevel: config?.graphOptimizationLevel || 'all',
-        enableCpuMemArena: config?.enableCpuMemArena ?? true,
-        enableMemPattern: config?.enableMemPattern ?? true,
-        executionMode: config?.executionMode || 'sequential',
+        executionProviders: config?.executionProviders
+          || profile?.providers?.filter(provider => provider === 'wasm' || this.availableProviders.includes(provider))
+          || this.availableProviders,
+        graphOptimizationLevel: config?.graphOptimizationLevel || profile?.session?.graphOptimizationLevel || this.runtimeSettings?.graphOptimizationLevel || 'all',
+        enableCpuMemArena: config?.enableCpuMemArena ?? profile?.session?.enableCpuMemArena ?? true,
+        enableMemPattern: config?.enableMemPattern ?? profile?.session?.enableMemPattern ?? true,
+        executionMode: config?.executionMode || profile?.session?.executionMode || 'sequential',
         extra: config?.extra || {}
       }
       if(!this.ort){
@@ -190,18 +208,18 @@ export abstract class BaseONNXHandler {
 
       // Check if model is cached
       const cachedModel = this.modelList?.getModelConfig(modelId);
-      let modelData: ArrayBuffer | undefined
+      let modelData: Blob | undefined
       
       if (!cachedModel) {
         throw Error(`Model ${modelId} not found in approved model list`);
       }
       
       // Load model data from IndexedDB storage
-       const { loadOrFetchModel } = await import('@/core/utils/fetchchunkstore');
-       const { loadModelConfig } = await import('@/core/utils/model.list');
+       const { loadOrFetchModelBlob } = await import('@/core/utils/fetchchunkstore');
+       const { loadModelConfig, resolveModelGeometry } = await import('@/core/utils/model.list');
        try {
          console.log(`Loading model data for: ${modelId}`)
-         modelData = await loadOrFetchModel(
+         modelData = await loadOrFetchModelBlob(
            `${cachedModel.urlBase}/${cachedModel.modelId}/${cachedModel.repoBase}/${cachedModel.onnxDir}/${cachedModel.modelFileName}`,
            cachedModel.modelId
          );
@@ -226,13 +244,11 @@ export abstract class BaseONNXHandler {
       if (!configData) {
         throw Error(`Model ${modelId} config data could not be resolved`);
       } else {
-        this.eosTokenId = configData.eos_token_id;
-        this.numLayers = configData.num_hidden_layers;
-        const numHeads = configData.num_attention_heads;
-        const numKvHeads = configData.num_kv_heads ?? numHeads;
-        const hiddenSize = configData.hidden_size;
-        this.kvDims = [1, numKvHeads, 0, hiddenSize / numHeads];
+        this.geometry = resolveModelGeometry(configData);
         this.tokenizer = await this.modelList?.getTokenizer(modelId);
+        if (this.tokenizer && cachedModel.runtime?.chatTemplate) {
+          this.tokenizer.chat_template = cachedModel.runtime.chatTemplate;
+        }
         console.log(`Model ${modelId} config data resolved -- and tokenizer loaded`);
       }
 
@@ -240,46 +256,35 @@ export abstract class BaseONNXHandler {
         throw Error(`Model ${modelId} data could not be resolved`);
       }
 
-      let session: InferenceSession | null = null;
-      let provider = '';
 
-      // Load external data if it exists
-      let externalData: { path: string, data: ArrayBuffer }[] | undefined;
+      // ORT fetches object URLs straight into its own buffers, so the stored chunks are never joined here
+      const urls = [URL.createObjectURL(modelData)]
+      let externalData: { path: string, data: string }[] | undefined;
       if (cachedModel.modelExDataFileName) {
         try {
-          const { loadData } = await import('@/core/utils/fetchchunkstore');
-          const externalDataBuffer = await loadData(`${cachedModel.modelId}_external`);
-          if (externalDataBuffer) {
-            externalData = [{ path: `./${cachedModel.modelExDataFileName}`, data: externalDataBuffer }];
-          }
+          const externalDataBlob = await loadOrFetchModelBlob('', `${cachedModel.modelId}_external`);
+          urls.push(URL.createObjectURL(externalDataBlob))
+          externalData = [{ path: `./${cachedModel.modelExDataFileName}`, data: urls[1] }];
         } catch (error) {
           console.warn(`Failed to load external data for ${modelId}:`, error);
         }
       }
 
       // Try each provider in order
-      for (const providerName of this.availableProviders) {
-        try {
-          const options: any = {
-            ...sessionOptions,
-            executionProviders: [providerName],
-            externalData,
-          }
-
-          session = await this.ort.InferenceSession.create(modelData, options);
-          provider = providerName
-          console.log(`Successfully loaded model with provider: ${providerName}`)
-          break
-        } catch (error) {
-          console.warn(`Failed to load model with provider ${providerName}:`, error);
-          console.info(`Trying next provider...`);
-          continue
-        }
-      }
-
-      if (!session) {
-        throw new Error('Failed to load model with any available provider')
+      const { createSessionWithFallback } = await import('./execution-providers')
+      let created: Awaited<ReturnType<typeof createSessionWithFallback>>
+      try {
+        created = await createSessionWithFallback(
+          this.ort,
+          urls[0],
+          { ...sessionOptions, externalData },
+          sessionOptions.executionProviders,
+          this.getWebNNDeviceType(config, profile?.webnnDeviceType)
+        )
+      } finally {
+        urls.forEach(url => URL.revokeObjectURL(url))
       }
+      const { session, provider } = created
 
       const onnxSession: ONNXSession = {
         session,
@@ -287,7 +292,9 @@ export abstract class BaseONNXHandler {
         isLoaded: true,
         provider,
         inputNames: Array.from(session.inputNames),
-        outputNames: Array.from(session.outputNames)
+        outputNames: Array.from(session.outputNames),
+        // Half precision exports expect a float16 KV cache
+        kvType: /fp16|q4f16/.test(cachedModel.modelFileName) ? 'float16' : 'float32'
       }
 
       this.sessions.set(modelId, onnxSession)
@@ -346,32 +353,40 @@ export abstract class BaseONNXHandler {
   }
 
   // Cache management methods
-  async getCacheStats(): Promise<any> {
-    return false
+  async getCacheStats(): Promise<StorageStats> {
+    const { getStorageStats } = await import('@/core/utils/fetchchunkstore')
+    return getStorageStats()
   }
 
-  async getCachedModels(): Promise<any[]> {
-    return []
+  async getCachedModels(): Promise<ModelMeta[]> {
+    const { listStoredModels } = await import('@/core/utils/fetchchunkstore')
+    return listStoredModels()
   }
 
-  async isModelCached(_modelId: string): Promise<boolean> {
-    return false
+  async isModelCached(modelId: string): Promise<boolean> {
+    const { hasModelData } = await import('@/core/utils/fetchchunkstore')
+    return hasModelData(modelId)
   }
 
-  async removeCachedModel(_modelId: string): Promise<boolean> {
-    return false
+  async removeCachedModel(modelId: string): Promise<boolean> {
+    const { deleteStoredModel } = await import('@/core/utils/fetchchunkstore')
+    return deleteStoredModel(modelId)
   }
 
-  async clearAllCachedModels(_maxAge?: number): Promise<boolean> {
-    return false
+  async clearAllCachedModels(): Promise<boolean> {
+    const { clearStoredModels } = await import('@/core/utils/fetchchunkstore')
+    await clearStoredModels()
+    return true
   }
 
-  async cleanupOldCachedModels(_maxAge?: number): Promise<number> {
-    return 0
+  async cleanupOldCachedModels(maxAge: number): Promise<number> {
+    const { cleanupStoredModels } = await import('@/core/utils/fetchchunkstore')
+    return (await cleanupStoredModels(maxAge)).length
   }
 
   async getCacheUsagePercentage(): Promise<number> {
-    return 0
+    const stats = await this.getCacheStats()
+    return stats.quota ? (stats.usage ?? 0) / stats.quota * 100 : 0
   }
 }
 
@@ -387,11 +402,7 @@ export class ONNXProvider extends BaseONNXHandler {
 
   
 
-  async generateResponse(message: string, _options?: {
-    maxTokens?: number
-    temperature?: number
-    topP?: number
-  }): Promise<string> {
+  async generateResponse(input: GenerationInput, options?: GenerationOptions, onToken?: TokenCallback, signal?: AbortSignal): Promise<GenerationResult> {
     if (!this.currentModelId) {
       throw new Error('No model loaded')
     }
@@ -405,70 +416,55 @@ export class ONNXProvider extends BaseONNXHandler {
       throw new Error('Tokenizer not loaded')
     }
 
-    try {
-      console.log('Generating response for:', message)
-       
-       // Basic text generation implementation
-       // Note: maxTokens option not used in this basic implementation
-       
-       // Encode the input message
-      const inputs = await this.tokenizer.encode(message)
-      console.log('Encoded inputs:', inputs)
-      
-      // Prepare input tensor
-      const inputIds = new BigInt64Array(inputs.map(id => BigInt(id)))
-      const feeds: Record<string, any> = {}
-      
-      // Use the first input name from the session
-      if (session.inputNames.length > 0) {
-        feeds[session.inputNames[0]] = new this.ort!.Tensor('int64', inputIds, [1, inputIds.length])
-      } else {
-        throw new Error('No input names found in session')
-      }
-      
-      // Run inference
-      console.log('Running inference with feeds:', Object.keys(feeds))
-      const results = await session.session.run(feeds)
-      console.log('Inference results:', Object.keys(results))
-      
-      // Get output tensor
-      const outputName = session.outputNames[0]
-      if (!outputName || !results[outputName]) {
-        throw new Error('No valid output found')
-      }
-      
-      const outputTensor = results[outputName]
-      console.log('Output tensor shape:', outputTensor.dims)
-      
-      // For basic implementation, just take the last token prediction
-      // In a real implementation, you'd implement proper autoregressive generation
-      const outputData = outputTensor.data as Float32Array
-      
-      // Find the token with highest probability (argmax)
-      let maxIndex = 0
-      let maxValue = outputData[0]
-      for (let i = 1; i < outputData.length; i++) {
-        if (outputData[i] > maxValue) {
-          maxValue = outputData[i]
-          maxIndex = i
-        }
+    if (!this.geometry || !this.ort) {
+      throw new Error(`Model ${this.currentModelId} config is not loaded`)
+    }
+
+    const { runDecodeLoop, createTextStreamer } = await import('./decode-loop')
+    const { createSampler, normalizeSamplingOptions } = await import('./sampler')
+    const { encodePrompt, describeInput } = await import('./chat-template')
+    const { fitToContext, buildSummaryPrompt, resolveContextLength, SUMMARY_MAX_TOKENS } = await import('./context-window')
+    const { withModelDefaults } = await import('@/core/utils/runtime-settings')
+    console.log('Generating response for:', describeInput(input))
+    const profile = this.modelList?.getModelConfig(this.currentModelId)?.runtime
+    const sampling = normalizeSamplingOptions(withModelDefaults(options, profile))
+    const tokenizer = this.tokenizer
+    const decodeParams = { ort: this.ort, session, geometry: this.geometry, kvType: session.kvType, signal }
+    const contextLength = resolveContextLength(profile?.contextLength ?? this.geometry.maxPositionEmbeddings)
+
+    const fitted = await fitToContext({
+      input,
+      encode: (value) => encodePrompt(tokenizer, value),
+      contextLength,
+      maxTokens: sampling.maxTokens,
+      policy: options?.contextPolicy,
+      summarize: async (messages) => {
+        const summary = await runDecodeLoop({
+          ...decodeParams,
+          promptIds: encodePrompt(tokenizer, buildSummaryPrompt(messages, contextLength)),
+          maxTokens: SUMMARY_MAX_TOKENS,
+          sampleNext: createSampler({ greedy: true })
+        })
+        return tokenizer.decode(summary.tokenIds, { skip_special_tokens: true })
       }
-      
-      // Decode the predicted token
-      const decodedText = await this.tokenizer.decode([maxIndex])
-      console.log('Decoded text:', decodedText)
-      
-      // For now, return a simple response with the decoded token
-      // This is a basic implementation - real autoregressive generation would be more complex
-      const response = `${message} ${decodedText}`.trim()
-      
-      console.log('Generated response:', response)
-      return response
-      
-    } catch (error) {
-      console.error('Error generating response:', error)
-      // Fallback to a basic response if inference fails
-      return `Echo: ${message} (inference failed, using fallback)`
+    })
+
+    const result = await runDecodeLoop({
+      ...decodeParams,
+      promptIds: fitted.promptIds,
+      maxTokens: fitted.usage.maxTokens,
+      sampleNext: createSampler(sampling, fitted.promptIds),
+      onToken: onToken ? createTextStreamer(tokenizer, onToken) : undefined
+    })
+
+    const text = tokenizer.decode(result.tokenIds, { skip_special_tokens: true })
+    console.log(`Generated ${result.tokenIds.length} tokens (finish reason: ${result.finishReason})`)
+    const remainingTokens = contextLength - fitted.usage.promptTokens - result.tokenIds.length
+    return {
+      text,
+      finishReason: result.finishReason,
+      tokenCount: result.tokenIds.length,
+      context: { ...fitted.usage, remainingTokens }
     }
   }
 
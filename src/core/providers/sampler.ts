@@ -0,0 +1,190 @@
+/**
+ * Token sampling pipeline shared by the ONNX providers
+ * penalties -> temperature -> top-k -> top-p -> min-p -> draw (seeded when `seed` is set)
+ */
+
+export interface SamplingOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  minP?: number;
+  repetitionPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+  greedy?: boolean;
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: Required<Omit<SamplingOptions, 'seed'>> = {
+  maxTokens: 128,
+  temperature: 0.7,
+  topK: 50,
+  topP: 1,
+  minP: 0,
+  repetitionPenalty: 1,
+  presencePenalty: 0,
+  greedy: false,
+};
+
+// Every option but `greedy` holds a number
+const NUMERIC_SAMPLING_OPTIONS = [
+  'maxTokens', 'temperature', 'topK', 'topP', 'minP', 'repetitionPenalty', 'presencePenalty', 'seed'
+] as const satisfies readonly (keyof SamplingOptions)[];
+
+export type TokenSampler = (logits: Float32Array, generatedIds: number[]) => number;
+
+// mulberry32 - small, fast and good enough for reproducible sampling
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function argmax(values: Float32Array): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+// Indices of the `k` largest values in no particular order, kept in a min-heap so the vocabulary is never sorted
+function topKIndices(values: Float32Array, k: number): number[] {
+  const heap: number[] = [];
+  const swap = (a: number, b: number) => {
+    [heap[a], heap[b]] = [heap[b], heap[a]];
+  };
+  for (let index = 0; index < values.length; index++) {
+    if (heap.length < k) {
+      heap.push(index);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (values[heap[parent]] <= values[heap[i]]) break;
+        swap(i, parent);
+        i = parent;
+      }
+    } else if (values[index] > values[heap[0]]) {
+      heap[0] = index;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        let smallest = i;
+        if (left < k && values[heap[left]] < values[heap[smallest]]) smallest = left;
+        if (left + 1 < k && values[heap[left + 1]] < values[heap[smallest]]) smallest = left + 1;
+        if (smallest === i) break;
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+  }
+  return heap;
+}
+
+/**
+ * Drop undefined/invalid values so callers can spread partial options over the defaults
+ */
+export function normalizeSamplingOptions(options?: SamplingOptions): Required<Omit<SamplingOptions, 'seed'>> & { seed?: number } {
+  const merged: Required<Omit<SamplingOptions, 'seed'>> & { seed?: number } = { ...DEFAULT_SAMPLING_OPTIONS };
+  if (!options) return merged;
+  if (options.greedy !== undefined && options.greedy !== null) {
+    merged.greedy = Boolean(options.greedy);
+  }
+  for (const key of NUMERIC_SAMPLING_OPTIONS) {
+    const value = options[key];
+    if (value === undefined || value === null) continue;
+    const num = Number(value);
+    if (Number.isFinite(num)) merged[key] = num;
+  }
+  return merged;
+}
+
+/**
+ * @param promptIds Penalised by the repetition penalty along with the generated tokens, as in HF;
+ *   the presence penalty only counts generated tokens
+ */
+export function createSampler(options?: SamplingOptions, promptIds: number[] = []): TokenSampler {
+  const opts = normalizeSamplingOptions(options);
+  const random = opts.seed !== undefined ? seededRandom(opts.seed) : Math.random;
+  const greedy = opts.greedy || opts.temperature <= 0;
+  // Prompt and generated tokens the repetition penalty applies to
+  const seen = new Set(opts.repetitionPenalty !== 1 ? promptIds : []);
+
+  return (rawLogits, generatedIds) => {
+    const logits = rawLogits.slice();
+
+    // Repetition (multiplicative, HF style) and presence (additive, OpenAI style) penalties
+    if (opts.repetitionPenalty !== 1) {
+      for (const tokenId of generatedIds) seen.add(tokenId);
+      for (const tokenId of seen) {
+        if (tokenId < 0 || tokenId >= logits.length) continue;
+        const value = logits[tokenId];
+        logits[tokenId] = value > 0 ? value / opts.repetitionPenalty : value * opts.repetitionPenalty;
+      }
+    }
+    if (opts.presencePenalty !== 0) {
+      for (const tokenId of new Set(generatedIds)) {
+        if (tokenId < 0 || tokenId >= logits.length) continue;
+        logits[tokenId] -= opts.presencePenalty;
+      }
+    }
+
+    if (greedy) {
+      return argmax(logits);
+    }
+
+    // Top-k by partial selection; with top-k off every token stays a candidate
+    let candidates = opts.topK > 0 && opts.topK < logits.length
+      ? topKIndices(logits, opts.topK)
+      : Array.from(logits.keys());
+    // Only the nucleus needs the candidates in order
+    const nucleus = opts.topP > 0 && opts.topP < 1;
+    if (nucleus) {
+      candidates.sort((a, b) => logits[b] - logits[a]);
+    }
+
+    let maxLogit = -Infinity;
+    for (const index of candidates) {
+      if (logits[index] > maxLogit) maxLogit = logits[index];
+    }
+    // Relative to the most likely candidate, whose weight is 1
+    let probs = candidates.map(index => Math.exp((logits[index] - maxLogit) / opts.temperature));
+    let total = probs.reduce((sum, p) => sum + p, 0);
+
+    // Nucleus: smallest prefix whose mass reaches top-p
+    if (nucleus) {
+      let cumulative = 0;
+      let keep = 0;
+      while (keep < probs.length) {
+        cumulative += probs[keep] / total;
+        keep++;
+        if (cumulative >= opts.topP) break;
+      }
+      candidates = candidates.slice(0, keep);
+      probs = probs.slice(0, keep);
+      total = probs.reduce((sum, p) => sum + p, 0);
+    }
+
+    // Min-p: drop tokens below a fraction of the most likely token's probability
+    if (opts.minP > 0) {
+      const kept = probs.map((_, i) => i).filter(i => probs[i] >= opts.minP);
+      if (kept.length > 0) {
+        candidates = kept.map(i => candidates[i]);
+        probs = kept.map(i => probs[i]);
+        total = probs.reduce((sum, p) => sum + p, 0);
+      }
+    }
+
+    let threshold = random() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      threshold -= probs[i];
+      if (threshold <= 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  };
+}
@@ -0,0 +1,126 @@
+/** @fileoverview
+ * Chat sessions of the popup's chat tab, persisted in their own IndexedDB database ('llm-chats')
+ * so conversations survive the popup closing. Kept apart from 'llm-models' so clearing the model
+ * cache never touches chat history
+ */
+import type { ChatMessage } from '../providers/chat-template';
+import type { SamplingOptions } from '../providers/sampler';
+import type { ContextPolicy } from '../providers/context-window';
+
+const DB_NAME = 'llm-chats';
+const SESSION_STORE = 'sessions';
+const TITLE_LENGTH = 48;
+
+export interface ChatSession {
+    id: string;
+    title: string;
+    titleEdited?: boolean; // set by renames, stops auto-titling
+    modelId: string | null;
+    systemPrompt?: string;
+    messages: ChatMessage[];
+    sampling: SamplingOptions;
+    contextPolicy?: ContextPolicy; // what to do when the history outgrows the model's context window
+    createdAt: number; // epoch ms
+    updatedAt: number;
+}
+
+export const UNTITLED_CHAT = 'New chat';
+
+async function openDb(): Promise<IDBDatabase> {
+    return new Promise((res, rej) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains(SESSION_STORE))
+                db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        };
+        req.onsuccess = () => res(req.result);
+        req.onerror = () => rej(req.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((res, rej) => {
+            const tx = db.transaction(SESSION_STORE, mode);
+            const req = run(tx.objectStore(SESSION_STORE));
+            req.onsuccess = () => res(req.result);
+            req.onerror = () => rej(req.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+const createSessionId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `chat_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// The first user message, on one line and cut at a word boundary
+export function deriveChatTitle(messages: ChatMessage[]): string {
+    const first = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+    if (!first) return UNTITLED_CHAT;
+    if (first.length <= TITLE_LENGTH) return first;
+    const cut = first.slice(0, TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export function createChatSession(init: Partial<Omit<ChatSession, 'id' | 'createdAt' | 'updatedAt'>> = {}): ChatSession {
+    const now = Date.now();
+    const messages = init.messages ?? [];
+    return {
+        modelId: null,
+        sampling: {},
+        ...init,
+        id: createSessionId(),
+        title: init.title ?? deriveChatTitle(messages),
+        messages,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+export async function getChatSession(id: string): Promise<ChatSession | undefined> {
+    return withStore('readonly', store => store.get(id) as IDBRequest<ChatSession | undefined>);
+}
+
+/**
+ * Store a session, bumping `updatedAt` and re-deriving the title unless the user renamed it
+ */
+export async function saveChatSession(session: ChatSession): Promise<ChatSession> {
+    const saved: ChatSession = {
+        ...session,
+        title: session.titleEdited ? session.title : deriveChatTitle(session.messages),
+        updatedAt: Date.now(),
+    };
+    await withStore('readwrite', store => store.put(saved));
+    return saved;
+}
+
+export async function renameChatSession(id: string, title: string): Promise<ChatSession | undefined> {
+    const session = await getChatSession(id);
+    if (!session) return undefined;
+    const trimmed = title.trim();
+    // An empty name hands the title back to auto-titling
+    return saveChatSession({ ...session, title: trimmed, titleEdited: trimmed.length > 0 });
+}
+
+export async function deleteChatSession(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Sessions, most recently updated first. `query` matches titles and message text, case-insensitively
+ */
+export async function listChatSessions(query = ''): Promise<ChatSession[]> {
+    const sessions = await withStore('readonly', store => store.getAll() as IDBRequest<ChatSession[]>);
+    const needle = query.trim().toLowerCase();
+    return sessions
+        .filter(s => !needle
+            || s.title.toLowerCase().includes(needle)
+            || s.messages.some(m => m.content.toLowerCase().includes(needle)))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,143 @@
+/** @fileoverview
+ * Portable chat transcripts for sharing conversations (e.g. repro cases for model misbehaviour).
+ * Markdown and plain text are for reading; JSON carries the model id and sampling options too and
+ * is the only format that can be imported back as a session
+ */
+import { normalizeChatMessages, type ChatMessage } from '../providers/chat-template';
+import { normalizeSamplingOptions, type SamplingOptions } from '../providers/sampler';
+import { createChatSession, type ChatSession } from './chat-store';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'text';
+
+const TRANSCRIPT_KIND = 'llm-control-panel-chat';
+const TRANSCRIPT_VERSION = 1;
+
+export interface ChatTranscript {
+    kind: typeof TRANSCRIPT_KIND;
+    version: number;
+    title: string;
+    modelId: string | null;
+    systemPrompt?: string;
+    sampling: SamplingOptions;
+    messages: ChatMessage[];
+    createdAt: number;
+    exportedAt: number;
+}
+
+export class TranscriptImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptImportError';
+    }
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+    system: 'System',
+    user: 'User',
+    assistant: 'Assistant',
+};
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+    markdown: 'md',
+    json: 'json',
+    text: 'txt',
+};
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+    markdown: 'text/markdown',
+    json: 'application/json',
+    text: 'text/plain',
+};
+
+// The system prompt is kept outside the message list in sessions; transcripts show it as the first turn
+function transcriptMessages(session: ChatSession): ChatMessage[] {
+    const system = session.systemPrompt?.trim();
+    return system ? [{ role: 'system', content: system }, ...session.messages] : session.messages;
+}
+
+function describeSampling(sampling: SamplingOptions): string {
+    return Object.entries(sampling)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(', ');
+}
+
+export function toMarkdown(session: ChatSession): string {
+    const lines = [`# ${session.title}`, ''];
+    lines.push(`- Model: ${session.modelId ?? 'unknown'}`);
+    const sampling = describeSampling(session.sampling);
+    if (sampling) lines.push(`- Sampling: ${sampling}`);
+    lines.push(`- Created: ${new Date(session.createdAt).toISOString()}`, '');
+    for (const message of transcriptMessages(session)) {
+        lines.push(`## ${ROLE_LABELS[message.role]}`, '', message.content, '');
+    }
+    return lines.join('\n');
+}
+
+export function toPlainText(session: ChatSession): string {
+    const header = `${session.title}\nModel: ${session.modelId ?? 'unknown'}\n`;
+    const turns = transcriptMessages(session).map(m => `${ROLE_LABELS[m.role]}: ${m.content}`);
+    return `${header}\n${turns.join('\n\n')}\n`;
+}
+
+export function toTranscript(session: ChatSession): ChatTranscript {
+    return {
+        kind: TRANSCRIPT_KIND,
+        version: TRANSCRIPT_VERSION,
+        title: session.title,
+        modelId: session.modelId,
+        systemPrompt: session.systemPrompt || undefined,
+        sampling: session.sampling,
+        messages: session.messages,
+        createdAt: session.createdAt,
+        exportedAt: Date.now(),
+    };
+}
+
+export function exportChatSession(session: ChatSession, format: TranscriptFormat): { content: string; mimeType: string; fileName: string } {
+    const content = format === 'markdown' ? toMarkdown(session)
+        : format === 'text' ? toPlainText(session)
+        : JSON.stringify(toTranscript(session), null, 2);
+    // Keep file names portable across platforms
+    const base = session.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'chat';
+    return { content, mimeType: MIME_TYPES[format], fileName: `${base}.${FILE_EXTENSIONS[format]}` };
+}
+
+/**
+ * Parse an exported JSON transcript into a new, unsaved session.
+ * A leading system message is moved to the session's system prompt
+ */
+export function importChatTranscript(json: string): ChatSession {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new TranscriptImportError('The file is not valid JSON');
+    }
+    if (!data || data.kind !== TRANSCRIPT_KIND) {
+        throw new TranscriptImportError('The file is not an exported chat transcript');
+    }
+    if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+        throw new TranscriptImportError(`Unsupported transcript version ${data.version}`);
+    }
+    const messages = normalizeChatMessages(data.messages);
+    if (!messages) {
+        throw new TranscriptImportError('The transcript has no valid messages');
+    }
+
+    let systemPrompt = typeof data.systemPrompt === 'string' ? data.systemPrompt : undefined;
+    if (messages[0].role === 'system') {
+        systemPrompt = systemPrompt ?? messages[0].content;
+        messages.shift();
+    }
+
+    return createChatSession({
+        title: typeof data.title === 'string' && data.title.trim() ? data.title.trim() : undefined,
+        // Imported titles are kept as they are rather than re-derived
+        titleEdited: typeof data.title === 'string' && data.title.trim().length > 0,
+        modelId: typeof data.modelId === 'string' ? data.modelId : null,
+        systemPrompt,
+        sampling: normalizeSamplingOptions(data.sampling && typeof data.sampling === 'object' ? data.sampling : undefined),
+        messages,
+    });
+}
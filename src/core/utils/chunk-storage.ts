@@ -0,0 +1,150 @@
+/** @fileoverview
+ * Where the bytes of stored model files live. `fetchchunkstore.ts` keeps model meta and download
+ * state in the `llm-models` IndexedDB database and hands the chunks to a backend: the database's own
+ * `chunks` store, or one file per chunk in the Origin Private File System. OPFS files are read back
+ * as disk-backed `File`s, so a model is handed to ONNX Runtime without copying its chunks. The
+ * backend for new downloads is chosen in Settings; each model records the backend holding it
+ */
+
+export const STORAGE_BACKENDS = ['indexeddb', 'opfs'] as const;
+
+export type StorageBackendKind = typeof STORAGE_BACKENDS[number];
+
+export const STORAGE_BACKEND_KEY = 'storageBackend';
+
+export const DEFAULT_STORAGE_BACKEND: StorageBackendKind = 'indexeddb';
+
+// OPFS directory holding the chunk files
+const OPFS_DIRECTORY = 'llm-models';
+
+export const isStorageBackendKind = (value: unknown): value is StorageBackendKind =>
+    typeof value === 'string' && (STORAGE_BACKENDS as readonly string[]).includes(value);
+
+export interface ChunkStorage {
+    readonly kind: StorageBackendKind;
+    put(key: string, data: Uint8Array<ArrayBuffer>): Promise<void>;
+    // undefined when the chunk is missing
+    get(key: string): Promise<ArrayBuffer | undefined>;
+    // The chunk as a Blob, disk-backed where the backend allows it
+    getBlob(key: string): Promise<Blob | undefined>;
+    delete(key: string): Promise<void>;
+}
+
+// The `chunks` store of the `llm-models` database, which also holds model configs under other keys
+export class IndexedDbChunkStorage implements ChunkStorage {
+    readonly kind = 'indexeddb';
+
+    constructor(private db: IDBDatabase) {}
+
+    put(key: string, data: Uint8Array<ArrayBuffer>): Promise<void> {
+        // Store a buffer of exactly the chunk, not the view's whole backing buffer
+        const buffer = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength ? data.buffer : data.slice().buffer;
+        return this.request('readwrite', store => store.put(buffer, key)).then(() => undefined);
+    }
+
+    async get(key: string): Promise<ArrayBuffer | undefined> {
+        return (await this.request('readonly', store => store.get(key))) as ArrayBuffer | undefined;
+    }
+
+    async getBlob(key: string): Promise<Blob | undefined> {
+        const chunk = await this.get(key);
+        return chunk ? new Blob([chunk]) : undefined;
+    }
+
+    delete(key: string): Promise<void> {
+        return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+    }
+
+    private request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+        return new Promise((res, rej) => {
+            const tx = this.db.transaction('chunks', mode);
+            const req = run(tx.objectStore('chunks'));
+            req.onsuccess = () => res(req.result);
+            req.onerror = () => rej(req.error);
+        });
+    }
+}
+
+// The parts of FileSystemSyncAccessHandle used here; it is declared in lib.webworker, not lib.dom
+interface SyncAccessHandle {
+    truncate(size: number): void;
+    write(buffer: BufferSource, options?: { at?: number }): number;
+    flush(): void;
+    close(): void;
+}
+
+type SyncAccessFileHandle = FileSystemFileHandle & { createSyncAccessHandle?: () => Promise<SyncAccessHandle> };
+
+/**
+ * One OPFS file per chunk, named after the chunk key. Chunks are written through sync access handles,
+ * which only dedicated workers have, so downloads and migrations run in the engine worker.
+ * Reading and deleting work from any context
+ */
+export class OpfsChunkStorage implements ChunkStorage {
+    readonly kind = 'opfs';
+    private directory: Promise<FileSystemDirectoryHandle> | null = null;
+
+    async put(key: string, data: Uint8Array<ArrayBuffer>): Promise<void> {
+        const handle: SyncAccessFileHandle = await (await this.getDirectory()).getFileHandle(this.fileName(key), { create: true });
+        if (!handle.createSyncAccessHandle) {
+            throw new Error('OPFS chunks can only be written from a dedicated worker');
+        }
+        const syncHandle = await handle.createSyncAccessHandle();
+        try {
+            syncHandle.truncate(0);
+            syncHandle.write(data, { at: 0 });
+            syncHandle.flush();
+        } finally {
+            syncHandle.close();
+        }
+    }
+
+    async get(key: string): Promise<ArrayBuffer | undefined> {
+        return (await this.getBlob(key))?.arrayBuffer();
+    }
+
+    async getBlob(key: string): Promise<Blob | undefined> {
+        try {
+            const handle = await (await this.getDirectory()).getFileHandle(this.fileName(key));
+            return await handle.getFile();
+        } catch (error) {
+            if ((error as DOMException)?.name === 'NotFoundError') return undefined;
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await (await this.getDirectory()).removeEntry(this.fileName(key));
+        } catch (error) {
+            if ((error as DOMException)?.name !== 'NotFoundError') throw error;
+        }
+    }
+
+    private getDirectory(): Promise<FileSystemDirectoryHandle> {
+        this.directory ??= navigator.storage.getDirectory()
+            .then(root => root.getDirectoryHandle(OPFS_DIRECTORY, { create: true }));
+        return this.directory;
+    }
+
+    // Chunk keys hold the model id, whose `/` cannot be part of a file name
+    private fileName(key: string): string {
+        return encodeURIComponent(key);
+    }
+}
+
+export function isOpfsAvailable(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+}
+
+/**
+ * Backend for new downloads. IndexedDB outside extension pages (e.g. the ONNX worker), where
+ * chrome.storage is not available, and wherever OPFS is missing
+ */
+export async function loadStorageBackend(): Promise<StorageBackendKind> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return DEFAULT_STORAGE_BACKEND;
+    const result = await chrome.storage.local.get(STORAGE_BACKEND_KEY);
+    const backend = result[STORAGE_BACKEND_KEY];
+    if (!isStorageBackendKind(backend) || (backend === 'opfs' && !isOpfsAvailable())) return DEFAULT_STORAGE_BACKEND;
+    return backend;
+}
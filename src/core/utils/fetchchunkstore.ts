@@ -1,15 +1,18 @@
 /** @fileoverview
  * This file contains the code to fetch a model from a remote server and store it in the IndexedDB.
  *  Logic that can be used by any part of the app
+ *  Model meta and download state stay in IndexedDB; the chunks go to the backend of `chunk-storage.ts`
  */
-const CHUNK_SIZE = 50 * 1024 * 1024; // 50 MB
+import { Sha256, type Sha256State } from './sha256';
+import {
+    IndexedDbChunkStorage,
+    OpfsChunkStorage,
+    loadStorageBackend,
+    type ChunkStorage,
+    type StorageBackendKind,
+} from './chunk-storage';
 
-// Simple hash function for binary verification
-async function calculateHash(buffer: ArrayBuffer): Promise<string> {
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
+const CHUNK_SIZE = 50 * 1024 * 1024; // 50 MB
 
 type ProgressInfo =
     | { type: 'download'; url: string; loaded: number; total?: number }
@@ -20,22 +23,75 @@ type ProgressInfo =
 
 type ProgressCallback = (info: ProgressInfo) => void;
 
-interface ModelMeta {
+export interface ModelMeta {
     modelId: string;
     chunkKeys: string[];
     originalHash?: string;
+    sha256?: string; // of the stored bytes, taken while streaming
+    expectedSha256?: string; // published by the Hub for the file when it was downloaded
+    verifiedAt?: number; // epoch ms of the last check that matched
     totalBytes?: number;
+    storedAt?: number; // epoch ms, missing for models stored before it was tracked
+    backend?: StorageBackendKind; // holding the chunks; missing for models stored before OPFS, which are in IndexedDB
+}
+
+export interface VerifyResult {
+    modelId: string;
+    ok: boolean;
+    sha256: string;
+    expected?: string;
+    // What `expected` came from: the Hub's hash, the hash taken while downloading, or nothing to compare with
+    checkedAgainst: 'hub' | 'download' | 'none';
+    bytes: number;
+}
+
+// The stored bytes do not hash to what the Hub published for the file
+export class IntegrityError extends Error {
+    constructor(modelId: string, expected: string, actual: string) {
+        super(`Integrity check failed for ${modelId}. Expected: ${expected}, Got: ${actual}`);
+        this.name = 'IntegrityError';
+    }
+}
+
+/**
+ * A file that is not fully stored yet. Written after every stored chunk, so a download cut off
+ * (e.g. by the service worker being stopped) resumes from its last chunk with a `Range` request
+ */
+export interface PartialDownload {
+    modelId: string;
+    url: string;
+    chunkKeys: string[];
+    bytesStored: number;
+    totalBytes?: number;
+    // Validators sent as `If-Range`, so a changed file is downloaded again instead of spliced
+    etag?: string;
+    lastModified?: string;
+    // Hash of the stored chunks so far, so a resumed download needs not re-read them
+    hashState?: Sha256State;
+    expectedSha256?: string;
+    backend?: StorageBackendKind; // a resumed download keeps writing where it started
+    updatedAt: number; // epoch ms
+}
+
+export interface StorageStats {
+    modelCount: number;
+    totalBytes: number;
+    usage?: number; // origin-wide figures from navigator.storage.estimate()
+    quota?: number;
 }
 
 async function openDb(): Promise<IDBDatabase> {
     return new Promise((res, rej) => {
-        const req = indexedDB.open('llm-models', 1);
+        const req = indexedDB.open('llm-models', 2);
         req.onupgradeneeded = () => {
             const db = req.result;
             if (!db.objectStoreNames.contains('models'))
                 db.createObjectStore('models', { keyPath: 'modelId' });
             if (!db.objectStoreNames.contains('chunks'))
                 db.createObjectStore('chunks'); // key = string, value = Blob or ArrayBuffer
+            // v2: state of interrupted downloads
+            if (!db.objectStoreNames.contains('downloads'))
+                db.createObjectStore('downloads', { keyPath: 'modelId' });
         };
         req.onsuccess = () => res(req.result);
         req.onerror = () => rej(req.error);
@@ -62,21 +118,31 @@ async function putModelMeta(db: IDBDatabase, meta: ModelMeta): Promise<void> {
     });
 }
 
-async function storeChunk(db: IDBDatabase, key: string, chunk: ArrayBuffer): Promise<void> {
+async function getPartialDownload(db: IDBDatabase, modelId: string): Promise<PartialDownload | undefined> {
     return new Promise((res, rej) => {
-        const tx = db.transaction('chunks', 'readwrite');
-        const s = tx.objectStore('chunks');
-        const req = s.put(chunk, key);
+        const tx = db.transaction('downloads', 'readonly');
+        const s = tx.objectStore('downloads');
+        const req = s.get(modelId);
+        req.onsuccess = () => res(req.result as PartialDownload | undefined);
+        req.onerror = () => rej(req.error);
+    });
+}
+
+async function putPartialDownload(db: IDBDatabase, partial: PartialDownload): Promise<void> {
+    return new Promise((res, rej) => {
+        const tx = db.transaction('downloads', 'readwrite');
+        const s = tx.objectStore('downloads');
+        const req = s.put(partial);
         req.onsuccess = () => res();
         req.onerror = () => rej(req.error);
     });
 }
 
-async function deleteChunk(db: IDBDatabase, key: string): Promise<void> {
+async function deletePartialDownload(db: IDBDatabase, modelId: string): Promise<void> {
     return new Promise((res, rej) => {
-        const tx = db.transaction('chunks', 'readwrite');
-        const s = tx.objectStore('chunks');
-        const req = s.delete(key);
+        const tx = db.transaction('downloads', 'readwrite');
+        const s = tx.objectStore('downloads');
+        const req = s.delete(modelId);
         req.onsuccess = () => res();
         req.onerror = () => rej(req.error);
     });
@@ -92,165 +158,173 @@ async function deleteModelMeta(db: IDBDatabase, modelId: string): Promise<void>
     });
 }
 
-async function loadChunk(db: IDBDatabase, key: string): Promise<ArrayBuffer> {
-    return new Promise((res, rej) => {
-        const tx = db.transaction('chunks', 'readonly');
-        const s = tx.objectStore('chunks');
-        const req = s.get(key);
-        req.onsuccess = () => res(req.result as ArrayBuffer);
-        req.onerror = () => rej(req.error);
-    });
+const opfsStorage = new OpfsChunkStorage();
+
+// Backend holding a file's chunks
+function chunkStorage(db: IDBDatabase, backend: StorageBackendKind = 'indexeddb'): ChunkStorage {
+    return backend === 'opfs' ? opfsStorage : new IndexedDbChunkStorage(db);
+}
+
+async function loadChunk(storage: ChunkStorage, key: string): Promise<ArrayBuffer> {
+    const chunk = await storage.get(key);
+    if (!chunk) throw new Error(`Chunk ${key} is missing from ${storage.kind}`);
+    return chunk;
 }
 
-function splitIntoChunks(buffer: ArrayBuffer): ArrayBuffer[] {
-    const chunks: ArrayBuffer[] = [];
-    const view = new Uint8Array(buffer);
-    for (let i = 0; i < view.byteLength; i += CHUNK_SIZE) {
-        const chunkSize = Math.min(CHUNK_SIZE, view.byteLength - i);
-        const chunk = new ArrayBuffer(chunkSize);
-        const chunkView = new Uint8Array(chunk);
-        chunkView.set(view.subarray(i, i + chunkSize));
-        chunks.push(chunk);
+// Chunks joined into one Blob, read one at a time so only one chunk is held in memory; OPFS chunks
+// are disk-backed files and are not read at all. A missing chunk throws instead of leaving a gap
+async function chunksToBlob(db: IDBDatabase, meta: ModelMeta): Promise<Blob> {
+    const storage = chunkStorage(db, meta.backend);
+    let blob = new Blob([], { type: 'application/octet-stream' });
+    for (const key of meta.chunkKeys) {
+        const chunk = await storage.getBlob(key);
+        if (!chunk) throw new Error(`Chunk ${key} of ${meta.modelId} is missing from ${storage.kind}`);
+        blob = new Blob([blob, chunk], { type: 'application/octet-stream' });
+    }
+    if (meta.totalBytes !== undefined && blob.size !== meta.totalBytes) {
+        throw new Error(`Stored ${meta.modelId} has ${blob.size} bytes, expected ${meta.totalBytes}`);
     }
-    return chunks;
+    return blob;
 }
 
-async function fetchWithProgress(
-    url: string,
-    onProgress: (loaded: number, total?: number) => void
-): Promise<ArrayBuffer> {
-    const resp = await fetch(url);
-    if (!resp.ok) throw new Error(`Fetch failed: ${resp.status}`);
-    const reader = resp.body?.getReader();
-    const total = resp.headers.get('content-length')
-        ? parseInt(resp.headers.get('content-length')!, 10)
-        : undefined;
-    let received = 0;
-    const parts: Uint8Array[] = [];
-    if (!reader) return resp.arrayBuffer();
+// Drop a partial download together with the chunks it stored
+async function discardPartialDownload(db: IDBDatabase, partial: PartialDownload): Promise<void> {
+    const storage = chunkStorage(db, partial.backend);
+    for (const key of partial.chunkKeys) {
+        try { await storage.delete(key); } catch {
+            // ignore individual chunk delete errors
+        }
+    }
+    await deletePartialDownload(db, partial.modelId);
+}
+
+// Strong validator for `If-Range`; weak ETags cannot be used there
+function validatorsOf(resp: Response): Pick<PartialDownload, 'etag' | 'lastModified'> {
+    const etag = resp.headers.get('etag');
+    return {
+        etag: etag && !etag.startsWith('W/') ? etag : undefined,
+        lastModified: resp.headers.get('last-modified') ?? undefined,
+    };
+}
+
+// SHA-256 the Hub sends for LFS files as the (linked) ETag
+function publishedSha256(resp: Response): string | undefined {
+    const etag = (resp.headers.get('x-linked-etag') ?? resp.headers.get('etag'))?.replace(/^W\//, '').replace(/"/g, '');
+    return etag && /^[0-9a-f]{64}$/i.test(etag) ? etag.toLowerCase() : undefined;
+}
+
+// Hash state for a resumed download; partials stored without one are re-read once
+async function resumeHash(db: IDBDatabase, partial: PartialDownload): Promise<Sha256> {
+    if (partial.hashState) return new Sha256(partial.hashState);
+    const storage = chunkStorage(db, partial.backend);
+    const hasher = new Sha256();
+    for (const key of partial.chunkKeys) {
+        hasher.update(new Uint8Array(await loadChunk(storage, key)));
+    }
+    return hasher;
+}
+
+/**
+ * Store the meta of a fully streamed file, or drop its chunks and throw `IntegrityError`
+ * when they do not hash to the expected SHA-256
+ */
+async function finishDownload(db: IDBDatabase, state: PartialDownload, hasher: Sha256, progressCallback?: ProgressCallback): Promise<void> {
+    const { modelId, expectedSha256 } = state;
+    const sha256 = hasher.digest();
+    if (expectedSha256 && sha256 !== expectedSha256) {
+        await discardPartialDownload(db, state);
+        const error = new IntegrityError(modelId, expectedSha256, sha256);
+        progressCallback?.({ type: 'error', modelId, error: error.message });
+        throw error;
+    }
+    const now = Date.now();
+    await putModelMeta(db, {
+        modelId,
+        chunkKeys: state.chunkKeys,
+        sha256,
+        expectedSha256,
+        verifiedAt: expectedSha256 ? now : undefined,
+        totalBytes: state.bytesStored,
+        storedAt: now,
+        backend: state.backend,
+    });
+    await deletePartialDownload(db, modelId);
+    if (expectedSha256) {
+        progressCallback?.({ type: 'info', modelId, msg: 'Binary integrity verified successfully', part: 'verify' });
+    }
+    progressCallback?.({ type: 'complete', modelId, totalBytes: state.bytesStored });
+}
 
+// Full file size from `Content-Range: bytes a-b/total` on a 206, or `Content-Length` on a 200
+function totalBytesOf(resp: Response): number | undefined {
+    const range = resp.headers.get('content-range')?.match(/\/(\d+)$/);
+    if (resp.status === 206) return range ? parseInt(range[1], 10) : undefined;
+    const length = resp.headers.get('content-length');
+    return length ? parseInt(length, 10) : undefined;
+}
+
+async function* readBody(resp: Response): AsyncGenerator<Uint8Array> {
+    const reader = resp.body?.getReader();
+    if (!reader) {
+        // Fallback: small files path
+        yield new Uint8Array(await resp.arrayBuffer());
+        return;
+    }
     while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
-        if (value) {
-            parts.push(value);
-            received += value.length;
-            onProgress(received, total);
-        }
+        if (done) return;
+        if (value) yield value;
     }
-    const buf = new Uint8Array(received);
-    let pos = 0;
-    for (const chunk of parts) {
-        buf.set(chunk, pos);
-        pos += chunk.length;
-    }
-    return buf.buffer;
 }
 
 /**
- * Downloads or loads from IndexedDB the full model binary.
- * @param urls Array of URLs (in-order) that together form the model binary
+ * Load a stored file, downloading it first when it is not stored. The file comes back as a Blob
+ * joined from its chunks rather than one ArrayBuffer, so files past the ~2 GB ArrayBuffer limit
+ * load and the bytes are not held twice. Pass `URL.createObjectURL(blob)` to ONNX Runtime as the
+ * model or an external data file.
+ * The stored bytes are not re-hashed here; `verifyStoredModel` does that on request
  * @param modelId Any unique identifier (e.g. hash or passed in)
- * @param progressCallback Optional callback to track progress
- * @returns assembled ArrayBuffer of the model
+ * @param signal Aborts the download; chunks stored so far are kept for resuming
+ * @param expectedSha256 SHA-256 the downloaded file must have, e.g. its LFS oid on the Hub
  */
-export async function loadOrFetchModel(
+export async function loadOrFetchModelBlob(
     url: string,
     modelId: string,
-    progressCallback?: ProgressCallback
-): Promise<ArrayBuffer> {
+    progressCallback?: ProgressCallback,
+    signal?: AbortSignal,
+    expectedSha256?: string
+): Promise<Blob> {
     const db = await openDb();
-    const existing = await getModelMeta(db, modelId);
-    if (existing) {
-        try {
-            const buffers = await Promise.all(existing.chunkKeys.map(k => loadChunk(db, k)));
-            const totalBytes = buffers.reduce((s, b) => s + b.byteLength, 0);
-            const out = new Uint8Array(totalBytes);
-            let offset = 0;
-            for (const b of buffers) {
-                out.set(new Uint8Array(b), offset);
-                offset += b.byteLength;
-            }
-            
-            // Verify binary integrity if hash is available
-            if (existing.originalHash) {
-                const reconstructedHash = await calculateHash(out.buffer);
-                if (reconstructedHash !== existing.originalHash) {
-                    progressCallback?.({ 
-                        type: 'error', 
-                        modelId, 
-                        error: `Binary integrity check failed. Expected: ${existing.originalHash}, Got: ${reconstructedHash}` 
-                    });
-                    // Delete corrupted data and re-fetch
-                    await deleteModelData(modelId);
-                    progressCallback?.({ type: 'info', modelId, msg: 'Corrupted data detected, re-downloading model' });
-                    return loadOrFetchModel(url, modelId, progressCallback);
-                }
-                progressCallback?.({ type: 'info', modelId, msg: 'Binary integrity verified successfully' });
-            }
-            
-            progressCallback?.({ type: 'complete', modelId, totalBytes });
-            return out.buffer;
-        } catch (error) {
-            progressCallback?.({ type: 'error', modelId, error: `Failed to load model chunks: ${error}` });
-            // Delete potentially corrupted data and re-fetch
-            await deleteModelData(modelId);
-            progressCallback?.({ type: 'info', modelId, msg: 'Error loading chunks, re-downloading model' });
-            return loadOrFetchModel(url, modelId, progressCallback);
-        }
+    if (!(await getModelMeta(db, modelId))) {
+        await streamAndStoreModel(url, modelId, progressCallback, signal, expectedSha256);
     }
-
-    const chunkKeys: string[] = [];
-    let chunkCounter = 0;
-
-    const buf = await fetchWithProgress(url, (loaded, total) =>
-        progressCallback?.({ type: 'download', url, loaded, total })
-    );
-
-    // Calculate hash of original data for integrity verification
-    const originalHash = await calculateHash(buf);
-    progressCallback?.({ type: 'info', modelId, msg: `Calculated hash: ${originalHash}` });
-
-    const parts = splitIntoChunks(buf);
-    for (const p of parts) {
-        const key = `${modelId}::chunk::${chunkCounter}`;
-        await storeChunk(db, key, p);
-        chunkKeys.push(key);
-        progressCallback?.({
-            type: 'chunkStored',
-            modelId,
-            chunkIndex: chunkCounter,
-            bytesStored: p.byteLength,
-        });
-        chunkCounter++;
-    }
-
-    await putModelMeta(db, { 
-        modelId, 
-        chunkKeys, 
-        originalHash,
-        totalBytes: buf.byteLength 
-    });
-
-    const buffers = await Promise.all(chunkKeys.map(k => loadChunk(db, k)));
-    const totalBytes = buffers.reduce((s, b) => s + b.byteLength, 0);
-    const out = new Uint8Array(totalBytes);
-    let offset = 0;
-    for (const b of buffers) {
-        out.set(new Uint8Array(b), offset);
-        offset += b.byteLength;
+    const meta = await getModelMeta(db, modelId);
+    if (!meta) throw new Error(`Model ${modelId} was not stored`);
+    try {
+        const blob = await chunksToBlob(db, meta);
+        progressCallback?.({ type: 'complete', modelId, totalBytes: blob.size });
+        return blob;
+    } catch (error) {
+        progressCallback?.({ type: 'error', modelId, error: `Failed to load model chunks: ${error}` });
+        // Delete the broken data so the next load downloads the file again
+        await deleteModelData(modelId);
+        throw error;
     }
-
-    progressCallback?.({ type: 'complete', modelId, totalBytes });
-    return out.buffer;
 }
 
-// Stream the model from network and store into IndexedDB in fixed-size chunks,
-// without ever assembling the full model in memory.
+// Stream the model from network and store it in fixed-size chunks, in the backend chosen in
+// Settings, without ever assembling the full model in memory. An interrupted download resumes from its
+// last stored chunk when the server honours `Range`; bytes after that chunk are fetched again.
+// The stored bytes are hashed as they go and checked against `expectedSha256`, or the SHA-256
+// the Hub sends as ETag; a mismatch drops the download and throws `IntegrityError`.
+// `backend` overrides the setting, for callers that cannot read chrome.storage (e.g. the engine worker)
 export async function streamAndStoreModel(
     url: string,
     modelId: string,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    signal?: AbortSignal,
+    expectedSha256?: string,
+    backend?: StorageBackendKind
 ): Promise<void> {
     const db = await openDb();
     const existing = await getModelMeta(db, modelId);
@@ -260,41 +334,80 @@ export async function streamAndStoreModel(
         return;
     }
 
-    const resp = await fetch(url);
-    if (!resp.ok) throw new Error(`Fetch failed: ${resp.status}`);
-    const reader = resp.body?.getReader();
-    if (!reader) {
-        // Fallback: small files path
-        const buf = await resp.arrayBuffer();
-        const parts = splitIntoChunks(buf);
-        const chunkKeys: string[] = [];
-        let chunkCounter = 0;
-        for (const p of parts) {
-            const key = `${modelId}::chunk::${chunkCounter}`;
-            await storeChunk(db, key, p);
-            chunkKeys.push(key);
-            progressCallback?.({ type: 'chunkStored', modelId, chunkIndex: chunkCounter, bytesStored: p.byteLength });
-            chunkCounter++;
-        }
-        await putModelMeta(db, { modelId, chunkKeys });
-        const totalBytes = parts.reduce((s, b) => s + b.byteLength, 0);
-        progressCallback?.({ type: 'complete', modelId, totalBytes });
+    let partial = await getPartialDownload(db, modelId);
+    if (partial && (partial.url !== url || !(partial.etag || partial.lastModified))) {
+        // Another file, or nothing to tell whether the server still has the same one
+        await discardPartialDownload(db, partial);
+        partial = undefined;
+    }
+
+    let resp: Response;
+    if (partial && partial.totalBytes !== undefined && partial.bytesStored >= partial.totalBytes) {
+        // Every chunk was stored before the meta could be written
+        await finishDownload(db, partial, await resumeHash(db, partial), progressCallback);
         return;
+    } else if (partial) {
+        resp = await fetch(url, {
+            signal,
+            headers: { 'Range': `bytes=${partial.bytesStored}-`, 'If-Range': (partial.etag ?? partial.lastModified)! }
+        });
+        if (resp.status === 416) {
+            // Nothing past the stored bytes; a 416 names the file size as `bytes */<size>`
+            const size = resp.headers.get('content-range')?.match(/\*\/(\d+)$/);
+            if (size && parseInt(size[1], 10) === partial.bytesStored) {
+                await finishDownload(db, { ...partial, totalBytes: partial.bytesStored }, await resumeHash(db, partial), progressCallback);
+                return;
+            }
+            // The file shrank, or its size cannot be confirmed; retrying the range would only fail again
+            progressCallback?.({ type: 'info', modelId, msg: 'Cannot resume, downloading from the start' });
+            await discardPartialDownload(db, partial);
+            partial = undefined;
+            resp = await fetch(url, { signal });
+        } else if (resp.ok && resp.status !== 206) {
+            // The file changed or the server ignores ranges; this response is the whole file
+            progressCallback?.({ type: 'info', modelId, msg: 'Cannot resume, downloading from the start' });
+            await discardPartialDownload(db, partial);
+            partial = undefined;
+        }
+    } else {
+        resp = await fetch(url, { signal });
     }
+    if (!resp.ok) throw new Error(`Fetch failed: ${resp.status}`);
 
-    const total = resp.headers.get('content-length')
-        ? parseInt(resp.headers.get('content-length')!, 10)
-        : undefined;
-    let received = 0;
-    let chunkCounter = 0;
-    const chunkKeys: string[] = [];
-    let buffer = new Uint8Array(CHUNK_SIZE);
+    const state: PartialDownload = partial ?? {
+        modelId,
+        url,
+        chunkKeys: [],
+        bytesStored: 0,
+        totalBytes: totalBytesOf(resp),
+        ...validatorsOf(resp),
+        expectedSha256: expectedSha256?.toLowerCase() ?? publishedSha256(resp),
+        backend: backend ?? await loadStorageBackend(),
+        updatedAt: Date.now(),
+    };
+    if (partial) {
+        progressCallback?.({ type: 'info', modelId, msg: `Resuming at ${partial.bytesStored} bytes`, part: 'resume' });
+    }
+    const hasher = partial ? await resumeHash(db, partial) : new Sha256();
+    const storage = chunkStorage(db, state.backend);
+
+    const flush = async (bytes: Uint8Array<ArrayBuffer>) => {
+        const chunkIndex = state.chunkKeys.length;
+        const key = `${modelId}::chunk::${chunkIndex}`;
+        await storage.put(key, bytes);
+        hasher.update(bytes);
+        state.chunkKeys.push(key);
+        state.bytesStored += bytes.byteLength;
+        state.hashState = hasher.state();
+        state.updatedAt = Date.now();
+        await putPartialDownload(db, state);
+        progressCallback?.({ type: 'chunkStored', modelId, chunkIndex, bytesStored: bytes.byteLength });
+    };
+
+    let received = state.bytesStored;
+    const buffer = new Uint8Array(CHUNK_SIZE);
     let offset = 0;
-
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        if (!value) continue;
+    for await (const value of readBody(resp)) {
         let src = value;
         while (src.byteLength > 0) {
             const space = buffer.byteLength - offset;
@@ -302,34 +415,62 @@ export async function streamAndStoreModel(
             buffer.set(src.subarray(0, toCopy), offset);
             offset += toCopy;
             received += toCopy;
-            progressCallback?.({ type: 'download', url, loaded: received, total });
+            progressCallback?.({ type: 'download', url, loaded: received, total: state.totalBytes });
             src = src.subarray(toCopy);
 
             if (offset === buffer.byteLength) {
-                // flush
-                const key = `${modelId}::chunk::${chunkCounter}`;
-                await storeChunk(db, key, buffer.buffer.slice(0));
-                chunkKeys.push(key);
-                progressCallback?.({ type: 'chunkStored', modelId, chunkIndex: chunkCounter, bytesStored: buffer.byteLength });
-                chunkCounter++;
-                buffer = new Uint8Array(CHUNK_SIZE);
+                await flush(buffer);
                 offset = 0;
             }
         }
     }
-
     if (offset > 0) {
-        const finalBuf = new Uint8Array(offset);
-        finalBuf.set(buffer.subarray(0, offset));
-        const key = `${modelId}::chunk::${chunkCounter}`;
-        await storeChunk(db, key, finalBuf.buffer);
-        chunkKeys.push(key);
-        progressCallback?.({ type: 'chunkStored', modelId, chunkIndex: chunkCounter, bytesStored: finalBuf.byteLength });
+        await flush(buffer.subarray(0, offset));
     }
 
-    await putModelMeta(db, { modelId, chunkKeys });
-    const totalBytes = chunkKeys.length * CHUNK_SIZE - (CHUNK_SIZE - offset) % CHUNK_SIZE;
-    progressCallback?.({ type: 'complete', modelId, totalBytes });
+    await finishDownload(db, state, hasher, progressCallback);
+}
+
+/**
+ * Re-hash a stored file chunk by chunk, without assembling it, and compare it with the Hub's
+ * SHA-256 recorded at download (or `expectedSha256` when none was), else with the hash taken
+ * while downloading. Returns null when the file is not stored
+ */
+export async function verifyStoredModel(
+    modelId: string,
+    expectedSha256?: string,
+    onProgress?: (bytesChecked: number, totalBytes?: number) => void
+): Promise<VerifyResult | null> {
+    const db = await openDb();
+    const meta = await getModelMeta(db, modelId);
+    if (!meta) return null;
+
+    const storage = chunkStorage(db, meta.backend);
+    const hasher = new Sha256();
+    let bytes = 0;
+    for (const key of meta.chunkKeys) {
+        const chunk = new Uint8Array(await loadChunk(storage, key));
+        hasher.update(chunk);
+        bytes += chunk.byteLength;
+        onProgress?.(bytes, meta.totalBytes);
+    }
+    const sha256 = hasher.digest();
+
+    const hubHash = meta.expectedSha256 ?? expectedSha256?.toLowerCase();
+    const expected = hubHash ?? meta.sha256 ?? meta.originalHash;
+    const ok = expected === undefined || sha256 === expected;
+    if (ok) {
+        // With nothing to compare with, the hash becomes the reference for the next check
+        await putModelMeta(db, { ...meta, sha256: meta.sha256 ?? sha256, verifiedAt: expected ? Date.now() : meta.verifiedAt });
+    }
+    return {
+        modelId,
+        ok,
+        sha256,
+        expected,
+        checkedAgainst: hubHash ? 'hub' : expected ? 'download' : 'none',
+        bytes,
+    };
 }
 
 // Generic data storage functions for JSON/config data
@@ -362,13 +503,16 @@ export async function hasModelData(modelId: string): Promise<boolean> {
     return !!meta;
 }
 
-// Remove stored chunks and meta for a model
+// Remove stored chunks and meta for a model, and any unfinished download of it
 export async function deleteModelData(modelId: string): Promise<boolean> {
     const db = await openDb();
+    const partial = await getPartialDownload(db, modelId);
+    if (partial) await discardPartialDownload(db, partial);
     const meta = await getModelMeta(db, modelId);
-    if (!meta) return false;
+    if (!meta) return partial !== undefined;
+    const storage = chunkStorage(db, meta.backend);
     for (const key of meta.chunkKeys) {
-        try { await deleteChunk(db, key); } catch {
+        try { await storage.delete(key); } catch {
             // ignore individual chunk delete errors
         }
     }
@@ -376,4 +520,133 @@ export async function deleteModelData(modelId: string): Promise<boolean> {
         // ignore
     }
     return true;
-}
\ No newline at end of file
+}
+
+const isExternalDataEntry = (meta: ModelMeta) => meta.modelId.endsWith('_external');
+
+// Meta for every stored model (external data files are listed as `<modelId>_external`)
+export async function listStoredModels(): Promise<ModelMeta[]> {
+    const db = await openDb();
+    return new Promise((res, rej) => {
+        const tx = db.transaction('models', 'readonly');
+        const s = tx.objectStore('models');
+        const req = s.getAll();
+        req.onsuccess = () => res(req.result as ModelMeta[]);
+        req.onerror = () => rej(req.error);
+    });
+}
+
+// Downloads that were cut off and can be resumed (external data files are listed as `<modelId>_external`)
+export async function listPartialDownloads(): Promise<PartialDownload[]> {
+    const db = await openDb();
+    return new Promise((res, rej) => {
+        const tx = db.transaction('downloads', 'readonly');
+        const s = tx.objectStore('downloads');
+        const req = s.getAll();
+        req.onsuccess = () => res(req.result as PartialDownload[]);
+        req.onerror = () => rej(req.error);
+    });
+}
+
+export async function getStorageStats(): Promise<StorageStats> {
+    const models = await listStoredModels();
+    const stats: StorageStats = {
+        modelCount: models.filter(m => !isExternalDataEntry(m)).length,
+        totalBytes: models.reduce((sum, m) => sum + (m.totalBytes ?? 0), 0),
+    };
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        stats.usage = estimate.usage;
+        stats.quota = estimate.quota;
+    }
+    return stats;
+}
+
+// Remove a model together with its `<modelId>_external` data file
+export async function deleteStoredModel(modelId: string): Promise<boolean> {
+    const removed = await deleteModelData(modelId);
+    const removedExternal = await deleteModelData(`${modelId}_external`);
+    return removed || removedExternal;
+}
+
+// Remove every stored model, returns the ids that were removed
+export async function clearStoredModels(): Promise<string[]> {
+    const removed: string[] = [];
+    for (const meta of await listStoredModels()) {
+        if (isExternalDataEntry(meta)) continue;
+        if (await deleteStoredModel(meta.modelId)) removed.push(meta.modelId);
+    }
+    // Unfinished downloads hold chunks too
+    for (const partial of await listPartialDownloads()) {
+        await deleteModelData(partial.modelId);
+    }
+    return removed;
+}
+
+// Ids of the models stored more than `maxAge` ms ago
+export async function listExpiredModels(maxAge: number): Promise<string[]> {
+    const cutoff = Date.now() - maxAge;
+    return (await listStoredModels())
+        .filter(meta => !isExternalDataEntry(meta) && meta.storedAt !== undefined && meta.storedAt < cutoff)
+        .map(meta => meta.modelId);
+}
+
+// Remove models stored more than `maxAge` ms ago, returns the ids that were removed
+export async function cleanupStoredModels(maxAge: number): Promise<string[]> {
+    const removed: string[] = [];
+    for (const modelId of await listExpiredModels(maxAge)) {
+        if (await deleteStoredModel(modelId)) removed.push(modelId);
+    }
+    return removed;
+}
+
+// Copy chunks between backends, one at a time
+async function copyChunks(from: ChunkStorage, to: ChunkStorage, chunkKeys: string[]): Promise<void> {
+    for (const key of chunkKeys) {
+        await to.put(key, new Uint8Array(await loadChunk(from, key)));
+    }
+}
+
+/**
+ * Move stored files and unfinished downloads to `target`, one file at a time. The chunks are copied
+ * before the record is switched over and deleted after, so a migration cut off part way leaves
+ * every file readable and can simply be run again. Downloads must not be running meanwhile
+ * @returns ids of the files that were moved (external data files as `<modelId>_external`)
+ */
+export async function migrateStoredModels(
+    target: StorageBackendKind,
+    onProgress?: (modelId: string, moved: number, total: number) => void
+): Promise<string[]> {
+    const db = await openDb();
+    const to = chunkStorage(db, target);
+    const models = (await listStoredModels()).filter(meta => (meta.backend ?? 'indexeddb') !== target);
+    const partials = (await listPartialDownloads()).filter(partial => (partial.backend ?? 'indexeddb') !== target);
+    const total = models.length + partials.length;
+    const moved: string[] = [];
+
+    for (const meta of models) {
+        const from = chunkStorage(db, meta.backend);
+        await copyChunks(from, to, meta.chunkKeys);
+        await putModelMeta(db, { ...meta, backend: target });
+        for (const key of meta.chunkKeys) {
+            try { await from.delete(key); } catch {
+                // ignore individual chunk delete errors
+            }
+        }
+        moved.push(meta.modelId);
+        onProgress?.(meta.modelId, moved.length, total);
+    }
+    for (const partial of partials) {
+        const from = chunkStorage(db, partial.backend);
+        await copyChunks(from, to, partial.chunkKeys);
+        await putPartialDownload(db, { ...partial, backend: target });
+        for (const key of partial.chunkKeys) {
+            try { await from.delete(key); } catch {
+                // ignore individual chunk delete errors
+            }
+        }
+        moved.push(partial.modelId);
+        onProgress?.(partial.modelId, moved.length, total);
+    }
+    return moved;
+}
@@ -0,0 +1,7 @@
+/**
+ * Escaping for text put into popup markup built with template strings
+ */
+
+// Safe in element content and in quoted attribute values
+export const escapeHtml = (text: string): string =>
+  String(text).replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
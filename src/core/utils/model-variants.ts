@@ -0,0 +1,154 @@
+/** @fileoverview
+ * ONNX weight variants of a Hugging Face repo. Exports usually ship one file per quantization in
+ * the repo's `onnx/` dir (`model.onnx`, `model_fp16.onnx`, `model_q4f16.onnx`, ...); they are listed
+ * through the Hub's tree API and matched against a recommendation for this machine, so a model is not
+ * downloaded at fp32 where a 4-bit variant would fit
+ */
+import type { ModelConfig } from './model.list';
+
+// File name suffix → dtype, following the transformers.js export naming
+const DTYPE_SUFFIXES: Record<string, string> = {
+    '': 'fp32',
+    fp16: 'fp16',
+    quantized: 'q8',
+    int8: 'int8',
+    uint8: 'uint8',
+    q4: 'q4',
+    q4f16: 'q4f16',
+    bnb4: 'bnb4',
+};
+
+// Smallest acceptable substitutes when the recommended dtype was not exported, best first
+const DTYPE_FALLBACKS: Record<string, string[]> = {
+    fp32: ['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4f16', 'q4', 'bnb4'],
+    fp16: ['fp16', 'q4f16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'fp32'],
+    q4f16: ['q4f16', 'q4', 'bnb4', 'fp16', 'q8', 'int8', 'uint8', 'fp32'],
+    q4: ['q4', 'bnb4', 'q4f16', 'q8', 'int8', 'uint8', 'fp16', 'fp32'],
+};
+
+// Files of a decoder export, preferred in this order when a repo has several graphs
+const GRAPH_NAMES = ['model', 'decoder_model_merged'];
+
+export interface ModelVariant {
+    dtype: string; // fp32, fp16, q8, q4, q4f16, ...
+    fileName: string; // relative to `onnxDir`
+    size: number; // bytes, including the external data file
+    exDataFileName?: string;
+}
+
+export interface QuantizationRecommendation {
+    level: string;
+    reason: string;
+}
+
+interface TreeEntry {
+    type: string;
+    path: string;
+    size: number;
+    lfs?: { size: number; oid?: string }; // oid is the file's SHA-256
+}
+
+/**
+ * Pick a dtype from the providers this machine has and its memory (`navigator.deviceMemory`, in GB)
+ */
+export function recommendQuantization(providers: string[], deviceMemoryGB?: number): QuantizationRecommendation {
+    const mem = typeof deviceMemoryGB === 'number' ? deviceMemoryGB : undefined;
+    const hasWebGPU = providers.includes('webgpu');
+    const hasWebNN = providers.includes('webnn');
+    const hasWASM = providers.includes('wasm') || providers.length === 0;
+
+    if (hasWebGPU) {
+        if (mem && mem >= 16) return { level: 'fp16', reason: 'WebGPU + ample memory: best speed/quality balance' };
+        if (mem && mem >= 8) return { level: 'q4f16', reason: 'WebGPU + moderate memory: quantized weights with FP16 activations' };
+        return { level: 'q4', reason: 'WebGPU but low memory: prioritize smallest footprint' };
+    }
+
+    if (hasWebNN) {
+        if (mem && mem >= 8) return { level: 'q4f16', reason: 'WebNN device available: hybrid quantization recommended' };
+        return { level: 'q4', reason: 'WebNN with constrained memory: prefer 4-bit weights' };
+    }
+
+    if (hasWASM) {
+        if (mem && mem >= 8) return { level: 'q4f16', reason: 'WASM only: quantization helps; FP16 activations if memory allows' };
+        return { level: 'q4', reason: 'WASM only and limited memory: smallest weights recommended' };
+    }
+
+    return { level: 'q4', reason: 'Default recommendation when environment is unknown' };
+}
+
+/**
+ * Group the files of an `onnx/` listing into variants of one graph. External data files
+ * (`<file>_data` or `<file>.data`) count towards their model file's size
+ */
+export function parseModelVariants(entries: TreeEntry[], onnxDir: string): ModelVariant[] {
+    const prefix = onnxDir ? `${onnxDir.replace(/\/+$/, '')}/` : '';
+    const files = new Map(entries
+        .filter(entry => entry.type === 'file' && entry.path.startsWith(prefix))
+        .map(entry => [entry.path.slice(prefix.length), entry.lfs?.size ?? entry.size]));
+
+    const suffixes = Object.keys(DTYPE_SUFFIXES).filter(Boolean).join('|');
+    const pattern = new RegExp(`^(.+?)(?:_(${suffixes}))?\\.onnx$`);
+    const graphs = new Map<string, ModelVariant[]>();
+    for (const [fileName, size] of files) {
+        const match = fileName.match(pattern);
+        if (!match) continue;
+        const exDataFileName = [`${fileName}_data`, `${fileName}.data`].find(name => files.has(name));
+        const variant: ModelVariant = {
+            dtype: DTYPE_SUFFIXES[match[2] ?? ''],
+            fileName,
+            size: size + (exDataFileName ? files.get(exDataFileName) ?? 0 : 0),
+            ...(exDataFileName ? { exDataFileName } : {}),
+        };
+        graphs.set(match[1], [...(graphs.get(match[1]) ?? []), variant]);
+    }
+
+    const graph = GRAPH_NAMES.find(name => graphs.has(name)) ?? [...graphs.keys()].sort()[0];
+    return (graph ? graphs.get(graph) ?? [] : []).sort((a, b) => a.size - b.size);
+}
+
+/**
+ * List the variants in the model's `onnxDir` with the Hub's tree API.
+ * `repoBase` (`resolve/<revision>`) decides the revision listed
+ */
+export async function discoverModelVariants(config: Pick<ModelConfig, 'modelId' | 'urlBase' | 'onnxDir' | 'repoBase'>): Promise<ModelVariant[]> {
+    return parseModelVariants(await listOnnxDir(config), config.onnxDir);
+}
+
+/**
+ * SHA-256 of each LFS file in the model's `onnxDir`, keyed by file name, as published by the Hub.
+ * Small files kept in git have no SHA-256 and are left out
+ */
+export async function fetchLfsHashes(config: Pick<ModelConfig, 'modelId' | 'urlBase' | 'onnxDir' | 'repoBase'>): Promise<Map<string, string>> {
+    const prefix = config.onnxDir ? `${config.onnxDir.replace(/\/+$/, '')}/` : '';
+    return new Map((await listOnnxDir(config))
+        .filter(entry => entry.type === 'file' && entry.lfs?.oid && entry.path.startsWith(prefix))
+        .map(entry => [entry.path.slice(prefix.length), entry.lfs!.oid!.toLowerCase()]));
+}
+
+async function listOnnxDir(config: Pick<ModelConfig, 'modelId' | 'urlBase' | 'onnxDir' | 'repoBase'>): Promise<TreeEntry[]> {
+    const revision = config.repoBase.replace(/^resolve\//, '') || 'main';
+    const url = `${config.urlBase}/api/models/${config.modelId}/tree/${revision}/${config.onnxDir}`;
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error(`Failed to list ${config.onnxDir} of ${config.modelId}: HTTP ${res.status}`);
+    }
+    const entries = await res.json();
+    return Array.isArray(entries) ? entries : [];
+}
+
+/**
+ * The variant for `level`, or the closest exported substitute
+ */
+export function pickVariant(variants: ModelVariant[], level: string): ModelVariant | undefined {
+    const order = DTYPE_FALLBACKS[level] ?? [level];
+    for (const dtype of order) {
+        const variant = variants.find(candidate => candidate.dtype === dtype);
+        if (variant) return variant;
+    }
+    return variants[0];
+}
+
+export function formatVariantSize(bytes: number): string {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${Math.max(1, Math.round(bytes / 1024 ** 2))} MB`;
+}
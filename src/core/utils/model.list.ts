@@ -3,8 +3,11 @@
  *      Model Config list is used to store/manage approved models
  */
 import type { PreTrainedTokenizer } from '@huggingface/transformers';
-import { storeData, loadData, loadOrFetchModel, hasModelData, streamAndStoreModel } from './fetchchunkstore.ts';
+import type { ModelRuntimeProfile } from './runtime-settings';
+import { discoverModelVariants, fetchLfsHashes, type ModelVariant } from './model-variants';
+import { storeData, loadData, hasModelData, streamAndStoreModel } from './fetchchunkstore.ts';
 import { fetchAndCache } from './fetchncache.ts';
+import type { StorageBackendKind } from './chunk-storage';
 export interface ModelConfig {
     modelId:string; // We assume  the modelId is the in `<user>/<repo>` format
     urlBase: string; // The base url of the model default will be huggingface
@@ -13,6 +16,9 @@ export interface ModelConfig {
     repoBase: string;
     modelFileName: string;
     modelExDataFileName?: string;
+    dtype?: string; // quantization of `modelFileName`, when it is one of `variants`
+    variants?: ModelVariant[]; // ONNX files found in `onnxDir`, smallest first
+    runtime?: ModelRuntimeProfile; // providers, session options and defaults this model needs, applied on load
     metainfo?: {
         pipelineType?: string; // text-generation, etc..
         lastModified?: string;
@@ -48,28 +54,72 @@ export const loadModelConfig = async (modelId: string): Promise<any> => {
     return await loadData(`${modelId}_config`);
 };
 
-export const OnnxModelFetch = async (config: ModelConfig, progressFn?: (progress: {type:string, msg: string, progress: number, part: string}) => void): Promise<void> => {
+/**
+ * Attention geometry needed to build the KV cache for a decoder model.
+ * Resolved from the stored `config.json` (supports both llama-style and gpt2-style keys)
+ */
+export interface ModelGeometry {
+    numLayers: number;
+    numKvHeads: number;
+    headDim: number;
+    eosTokenIds: number[];
+    maxPositionEmbeddings?: number;
+}
+
+export const resolveModelGeometry = (configData: any): ModelGeometry => {
+    const numLayers = configData.num_hidden_layers ?? configData.n_layer;
+    const numHeads = configData.num_attention_heads ?? configData.n_head;
+    const hiddenSize = configData.hidden_size ?? configData.n_embd;
+    if (!numLayers || !numHeads || !hiddenSize) {
+        throw new Error('Model config is missing layer/head/hidden size information');
+    }
+    const numKvHeads = configData.num_key_value_heads ?? configData.num_kv_heads ?? numHeads;
+    const eos = configData.eos_token_id;
+    return {
+        numLayers,
+        numKvHeads,
+        headDim: configData.head_dim ?? hiddenSize / numHeads,
+        eosTokenIds: Array.isArray(eos) ? eos : (typeof eos === 'number' ? [eos] : []),
+        maxPositionEmbeddings: configData.max_position_embeddings ?? configData.n_positions,
+    };
+}
+
+export const OnnxModelFetch = async (config: ModelConfig, progressFn?: (progress: {type:string, msg: string, progress: number, part: string}) => void, signal?: AbortSignal, backend?: StorageBackendKind): Promise<void> => {
     const { modelId, urlBase, onnxDir, configFileName, repoBase, modelFileName, modelExDataFileName } = config;
     const repoUrl = `${urlBase}/${modelId}/${repoBase}`;
     const configUrl = `${repoUrl}/${configFileName}`;
     const modelFileUrl = `${repoUrl}/${onnxDir}/${modelFileName}`;
     const modelExDataUrl = `${repoUrl}/${onnxDir}/${modelExDataFileName}`;
+    // Checked against the stored bytes; without them the SHA-256 in the Hub's ETag is used
+    const hashes = await fetchLfsHashes(config).catch((error) => {
+        console.warn(`Could not list the SHA-256 hashes of ${modelId}:`, error);
+        return new Map<string, string>();
+    });
     
     // Download and store model data in IndexedDB using fetchchunkstore
     // Stream model file directly to IndexedDB to avoid large ArrayBuffer allocations
     await Promise.all([
         // @ts-ignore
-        streamAndStoreModel(modelFileUrl, modelId, progressFn),
+        streamAndStoreModel(modelFileUrl, modelId, progressFn, signal, hashes.get(modelFileName), backend),
         // Store config data separately with a config-specific key
         fetchAndCache(configUrl).then(res => res.json()).then(configData => {
             // Store config in IndexedDB with a special key
             return storeModelConfig(modelId, configData);
         }),
         // @ts-ignore
-        modelExDataFileName ? loadOrFetchModel(modelExDataUrl, `${modelId}_external`, progressFn) : Promise.resolve(),
+        modelExDataFileName ? streamAndStoreModel(modelExDataUrl, `${modelId}_external`, progressFn, signal, hashes.get(modelExDataFileName), backend) : Promise.resolve(),
     ]);
 }
 
+/**
+ * Whether every file of the model is stored: the `.onnx` and, when the model has one, its external
+ * data file. A file whose download was cut off has a partial record but no meta yet
+ */
+export const hasModelFiles = async (config: ModelConfig): Promise<boolean> => {
+    if (!(await hasModelData(config.modelId))) return false;
+    return !config.modelExDataFileName || hasModelData(`${config.modelId}_external`);
+}
+
 export const SoftcheckWithHF = async (modelId: string): Promise<ModelConfig['metainfo']> => {
     const metadataUrl = `https://huggingface.co/api/models/${modelId}`;
     const res = await fetch(metadataUrl, {
@@ -130,23 +180,34 @@ export class ModelDataList {
             if(metainfo) {
                 config.metainfo = metainfo;
             }
+            // Keep the variants passed in when the listing fails, e.g. offline
+            try {
+                const variants = await discoverModelVariants(config);
+                if (variants.length > 0) config.variants = variants;
+            } catch (error) {
+                console.warn(`Could not list ONNX variants of ${modelId}:`, error);
+            }
         }
+        config.dtype = config.variants?.find(v => v.fileName === config.modelFileName)?.dtype;
         this.modelConfigs.set(modelId, config);
         return config;
     }
 
-    async loadModel(modelId: string, progressFn?: (progress: {type:string, msg: string, progress: number, part: string}) => void): Promise<ModelConfig> {
+    /**
+     * Download and store the model's files unless they are stored already
+     * @param signal Stops the download; what was stored can be resumed by calling this again
+     */
+    async loadModel(modelId: string, progressFn?: (progress: {type:string, msg: string, progress: number, part: string}) => void, signal?: AbortSignal): Promise<ModelConfig> {
         const config = this.getModelConfig(modelId);
         if (!config) {
             throw new Error(`Model ${modelId} not found`);
         }
-        // Check if model data is already stored in IndexedDB
-        const modelExists = await hasModelData(modelId);
-        if (modelExists) {
+        // Check if every model file is already stored in IndexedDB
+        if (await hasModelFiles(config)) {
             return config; // Model data exists in storage
         }
-        // Download and store model data
-        await OnnxModelFetch(config, progressFn);
+        // Download and store model data; files already stored are skipped, partial ones resume
+        await OnnxModelFetch(config, progressFn, signal);
         return config;
     }
 
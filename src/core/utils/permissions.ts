@@ -0,0 +1,93 @@
+/**
+ * Permission vocabulary for approved third-party apps
+ * Capabilities are plain names; `specific-model:<id>` and `max-tokens:<n>` narrow what those capabilities allow
+ */
+
+export const CAPABILITIES = ['generate', 'stream', 'list-models', 'load-model', 'download-model', 'manage-cache'] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+export type ModelPermission = `specific-model:${string}`;
+export type MaxTokensPermission = `max-tokens:${number}`;
+export type Permission = Capability | ModelPermission | MaxTokensPermission;
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  'generate': 'Generate text with your models',
+  'stream': 'Receive text while it is being generated',
+  'list-models': 'See which models, providers and devices are available',
+  'load-model': 'Load and unload models',
+  'download-model': 'Download configured models (can be several GB)',
+  'manage-cache': 'Delete downloaded models'
+};
+
+// Names used before the vocabulary existed; approvals stored with them keep working
+const LEGACY_PERMISSIONS: Record<string, Permission[]> = {
+  'model-access': ['list-models', 'load-model'],
+  'generate-response': ['generate', 'stream']
+};
+
+const MODEL_PREFIX = 'specific-model:';
+const MAX_TOKENS_PREFIX = 'max-tokens:';
+
+export const isCapability = (value: string): value is Capability =>
+  (CAPABILITIES as readonly string[]).includes(value);
+
+export const isModelPermission = (value: string): value is ModelPermission =>
+  value.startsWith(MODEL_PREFIX) && value.length > MODEL_PREFIX.length;
+
+export const isMaxTokensPermission = (value: string): value is MaxTokensPermission =>
+  value.startsWith(MAX_TOKENS_PREFIX) && /^[1-9]\d*$/.test(value.slice(MAX_TOKENS_PREFIX.length));
+
+/**
+ * Validate, de-legacy and de-duplicate a permission list; unknown entries are dropped
+ */
+export function normalizePermissions(values: unknown): Permission[] {
+  if (!Array.isArray(values)) return [];
+  const result = new Set<Permission>();
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const trimmed = value.trim();
+    if (Object.hasOwn(LEGACY_PERMISSIONS, trimmed)) {
+      LEGACY_PERMISSIONS[trimmed].forEach(p => result.add(p));
+    } else if (isCapability(trimmed) || isModelPermission(trimmed) || isMaxTokensPermission(trimmed)) {
+      result.add(trimmed);
+    }
+  }
+  return Array.from(result);
+}
+
+export function describePermission(permission: Permission): string {
+  if (isModelPermission(permission)) {
+    return `Limited to model ${permission.slice(MODEL_PREFIX.length)}`;
+  }
+  if (isMaxTokensPermission(permission)) {
+    return `At most ${permission.slice(MAX_TOKENS_PREFIX.length)} tokens per request`;
+  }
+  return CAPABILITY_LABELS[permission as Capability] ?? permission;
+}
+
+// What a permission list allows once parsed
+export interface PermissionGrant {
+  capabilities: Set<Capability>;
+  // Empty means any configured model
+  models: string[];
+  maxTokens?: number;
+}
+
+export function resolveGrant(permissions: Permission[]): PermissionGrant {
+  const grant: PermissionGrant = { capabilities: new Set(), models: [] };
+  for (const permission of permissions) {
+    if (isCapability(permission)) {
+      grant.capabilities.add(permission);
+    } else if (isModelPermission(permission)) {
+      grant.models.push(permission.slice(MODEL_PREFIX.length));
+    } else if (isMaxTokensPermission(permission)) {
+      // Several limits keep the tightest one
+      const limit = Number(permission.slice(MAX_TOKENS_PREFIX.length));
+      grant.maxTokens = grant.maxTokens === undefined ? limit : Math.min(grant.maxTokens, limit);
+    }
+  }
+  return grant;
+}
+
+export const isModelAllowed = (grant: PermissionGrant, modelId: string): boolean =>
+  grant.models.length === 0 || grant.models.includes(modelId);
@@ -0,0 +1,88 @@
+/** @fileoverview
+ * Execution provider benchmarks from the Settings tab. The engine worker runs a downloaded model on
+ * each provider and measures session creation, time to first token and decode speed; the results are
+ * kept per machine in chrome.storage.local so provider order can follow measured speed
+ */
+import { isExecutionProvider, type ExecutionProvider } from '../providers/execution-providers';
+
+export const PROVIDER_BENCHMARKS_KEY = 'providerBenchmarks';
+
+// Short enough to finish in seconds on WASM, long enough for a stable tokens/sec figure
+export const BENCHMARK_PROMPT = 'Write a short paragraph about the history of the printing press.';
+export const BENCHMARK_MAX_TOKENS = 32;
+
+export interface ProviderBenchmark {
+    provider: ExecutionProvider;
+    sessionMs?: number; // InferenceSession.create
+    ttftMs?: number; // prompt pass plus the first sampled token
+    tokensPerSecond?: number; // decode speed after the first token
+    tokens?: number;
+    error?: string; // set when the provider could not create a session or run the model
+}
+
+export interface BenchmarkRun {
+    modelId: string;
+    runAt: number; // epoch ms
+    // Results are only trusted for the browser they were measured in
+    userAgent: string;
+    results: ProviderBenchmark[];
+}
+
+/**
+ * Timings for one provider from the moments a run started, got its first token and ended
+ */
+export function summarizeTimings(provider: ExecutionProvider, sessionMs: number, startedAt: number, firstTokenAt: number | null, endedAt: number, tokens: number): ProviderBenchmark {
+    const decodeTokens = tokens - 1;
+    const decodeMs = firstTokenAt === null ? 0 : endedAt - firstTokenAt;
+    return {
+        provider,
+        sessionMs: Math.round(sessionMs),
+        ttftMs: firstTokenAt === null ? undefined : Math.round(firstTokenAt - startedAt),
+        // With a single token there is no decode step to time, so fall back to the whole run
+        tokensPerSecond: decodeTokens > 0 && decodeMs > 0
+            ? decodeTokens / (decodeMs / 1000)
+            : tokens > 0 && endedAt > startedAt ? tokens / ((endedAt - startedAt) / 1000) : undefined,
+        tokens,
+    };
+}
+
+/**
+ * Providers measured in `run`, fastest first, then the rest of `order` as it was.
+ * Providers that failed the benchmark go last; WASM stays in the list whatever happened
+ */
+export function rankProvidersBySpeed<T extends string>(order: readonly T[], run: BenchmarkRun | null): T[] {
+    if (!run) return [...order];
+    const speed = new Map(run.results
+        .filter(result => result.tokensPerSecond !== undefined && !result.error)
+        .map(result => [result.provider as string, result.tokensPerSecond as number]));
+    const failed = new Set(run.results.filter(result => result.error).map(result => result.provider as string));
+
+    const measured = order.filter(provider => speed.has(provider))
+        .sort((a, b) => (speed.get(b) ?? 0) - (speed.get(a) ?? 0));
+    const unmeasured = order.filter(provider => !speed.has(provider) && !failed.has(provider));
+    return [...measured, ...unmeasured, ...order.filter(provider => failed.has(provider))];
+}
+
+function isBenchmarkRun(value: any): value is BenchmarkRun {
+    return value && typeof value.modelId === 'string' && typeof value.runAt === 'number' && Array.isArray(value.results)
+        && value.results.every((result: any) => result && isExecutionProvider(result.provider));
+}
+
+/**
+ * The newest run measured in this browser, or null
+ */
+export async function loadLatestBenchmark(): Promise<BenchmarkRun | null> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return null;
+    const result = await chrome.storage.local.get(PROVIDER_BENCHMARKS_KEY);
+    const runs: unknown[] = Array.isArray(result[PROVIDER_BENCHMARKS_KEY]) ? result[PROVIDER_BENCHMARKS_KEY] : [];
+    const current = runs.filter(isBenchmarkRun).filter(run => run.userAgent === navigator.userAgent);
+    return current.sort((a, b) => b.runAt - a.runAt)[0] ?? null;
+}
+
+// Keeps the newest run per model
+export async function saveBenchmark(run: BenchmarkRun): Promise<void> {
+    const result = await chrome.storage.local.get(PROVIDER_BENCHMARKS_KEY);
+    const runs: unknown[] = Array.isArray(result[PROVIDER_BENCHMARKS_KEY]) ? result[PROVIDER_BENCHMARKS_KEY] : [];
+    const others = runs.filter(isBenchmarkRun).filter(stored => stored.modelId !== run.modelId);
+    await chrome.storage.local.set({ [PROVIDER_BENCHMARKS_KEY]: [...others, run] });
+}
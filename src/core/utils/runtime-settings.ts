@@ -0,0 +1,213 @@
+/** @fileoverview
+ * Per-machine ONNX Runtime settings from the Settings tab: provider order, a pinned WebNN device,
+ * WASM threading flags and the graph optimization level. Kept in chrome.storage.local so each
+ * machine can be tuned without rebuilding the extension. The service worker resolves them, together
+ * with the model's own `ModelConfig.runtime` profile, against the detected hardware into the
+ * `RuntimeOptions` sent with every model load
+ */
+import { DEFAULT_SAMPLING_OPTIONS, type SamplingOptions } from '../providers/sampler';
+import {
+    EXECUTION_PROVIDERS,
+    isExecutionProvider,
+    isWebNNDeviceType,
+    resolveProviderOrder,
+    type ExecutionProvider,
+    type WebNNDeviceType,
+} from '../providers/execution-providers';
+
+export const RUNTIME_SETTINGS_KEY = 'runtimeSettings';
+
+export const GRAPH_OPTIMIZATION_LEVELS = ['disabled', 'basic', 'extended', 'all'] as const;
+
+export type GraphOptimizationLevel = typeof GRAPH_OPTIMIZATION_LEVELS[number];
+
+export const MAX_WASM_THREADS = 32;
+
+export const EXECUTION_MODES = ['sequential', 'parallel'] as const;
+
+export type ExecutionMode = typeof EXECUTION_MODES[number];
+
+export interface RuntimeSettings {
+    providerOrder: ExecutionProvider[]; // every provider once, most preferred first
+    rankByBenchmark: boolean; // order by the latest provider benchmark instead, where it has results
+    webnnDeviceType: 'auto' | WebNNDeviceType; // 'auto' lets WebNNUtils pick the device
+    wasmThreads: number; // 0 = one per logical core
+    wasmSimd: boolean;
+    wasmProxy: boolean;
+    graphOptimizationLevel: GraphOptimizationLevel;
+}
+
+// ONNX Runtime session options a model can override
+export interface ModelSessionOptions {
+    graphOptimizationLevel?: GraphOptimizationLevel;
+    enableCpuMemArena?: boolean;
+    enableMemPattern?: boolean;
+    executionMode?: ExecutionMode;
+}
+
+/**
+ * Per-model overrides stored as `ModelConfig.runtime`, for models that only work on some providers
+ * or need their own defaults
+ */
+export interface ModelRuntimeProfile {
+    providers?: ExecutionProvider[]; // tried instead of the Settings order; others are not tried, except WASM as the last resort
+    webnnDeviceType?: WebNNDeviceType;
+    session?: ModelSessionOptions;
+    sampling?: SamplingOptions; // defaults for requests that leave these out
+    contextLength?: number; // replaces max_position_embeddings from config.json
+    chatTemplate?: string; // Jinja template used instead of the tokenizer's own
+}
+
+// What a model load needs once the settings are matched against what the machine offers
+export interface RuntimeOptions extends ModelSessionOptions {
+    providers: ExecutionProvider[];
+    webnnDeviceType?: WebNNDeviceType;
+    wasmThreads: number;
+    wasmSimd: boolean;
+    wasmProxy: boolean;
+    graphOptimizationLevel: GraphOptimizationLevel;
+}
+
+export const DEFAULT_RUNTIME_SETTINGS: RuntimeSettings = {
+    providerOrder: [...EXECUTION_PROVIDERS],
+    rankByBenchmark: true,
+    webnnDeviceType: 'auto',
+    wasmThreads: 0,
+    wasmSimd: true,
+    wasmProxy: false,
+    graphOptimizationLevel: 'all',
+};
+
+export const isGraphOptimizationLevel = (value: unknown): value is GraphOptimizationLevel =>
+    typeof value === 'string' && (GRAPH_OPTIMIZATION_LEVELS as readonly string[]).includes(value);
+
+/**
+ * Fill in and clamp stored or user-supplied settings. Providers missing from `providerOrder`
+ * are appended in default order, so a partial ranking still covers every provider
+ */
+export function normalizeRuntimeSettings(value: unknown): RuntimeSettings {
+    const input = value && typeof value === 'object' ? value as Partial<Record<keyof RuntimeSettings, unknown>> : {};
+    const ranked = Array.isArray(input.providerOrder) ? input.providerOrder.filter(isExecutionProvider) : [];
+    const providerOrder = [...new Set([...ranked, ...EXECUTION_PROVIDERS])];
+    const threads = Number(input.wasmThreads);
+
+    return {
+        providerOrder,
+        rankByBenchmark: typeof input.rankByBenchmark === 'boolean' ? input.rankByBenchmark : DEFAULT_RUNTIME_SETTINGS.rankByBenchmark,
+        webnnDeviceType: isWebNNDeviceType(input.webnnDeviceType) ? input.webnnDeviceType : 'auto',
+        wasmThreads: Number.isFinite(threads) ? Math.min(MAX_WASM_THREADS, Math.max(0, Math.round(threads))) : 0,
+        wasmSimd: typeof input.wasmSimd === 'boolean' ? input.wasmSimd : DEFAULT_RUNTIME_SETTINGS.wasmSimd,
+        wasmProxy: typeof input.wasmProxy === 'boolean' ? input.wasmProxy : DEFAULT_RUNTIME_SETTINGS.wasmProxy,
+        graphOptimizationLevel: isGraphOptimizationLevel(input.graphOptimizationLevel)
+            ? input.graphOptimizationLevel
+            : DEFAULT_RUNTIME_SETTINGS.graphOptimizationLevel,
+    };
+}
+
+const isSamplingKey = (key: string): key is keyof SamplingOptions =>
+    key === 'seed' || key in DEFAULT_SAMPLING_OPTIONS;
+
+/**
+ * Validate a model's runtime profile, dropping unknown or invalid fields.
+ * Returns undefined when nothing is left, so configs without overrides stay without a `runtime` key
+ */
+export function normalizeModelRuntime(value: unknown): ModelRuntimeProfile | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const input = value as Record<string, any>;
+    const profile: ModelRuntimeProfile = {};
+
+    if (Array.isArray(input.providers)) {
+        const providers = [...new Set(input.providers.filter(isExecutionProvider))];
+        if (providers.length > 0) profile.providers = providers;
+    }
+    if (isWebNNDeviceType(input.webnnDeviceType)) {
+        profile.webnnDeviceType = input.webnnDeviceType;
+    }
+
+    if (input.session && typeof input.session === 'object') {
+        const session: ModelSessionOptions = {};
+        if (isGraphOptimizationLevel(input.session.graphOptimizationLevel)) session.graphOptimizationLevel = input.session.graphOptimizationLevel;
+        if (typeof input.session.enableCpuMemArena === 'boolean') session.enableCpuMemArena = input.session.enableCpuMemArena;
+        if (typeof input.session.enableMemPattern === 'boolean') session.enableMemPattern = input.session.enableMemPattern;
+        if ((EXECUTION_MODES as readonly unknown[]).includes(input.session.executionMode)) session.executionMode = input.session.executionMode;
+        if (Object.keys(session).length > 0) profile.session = session;
+    }
+
+    if (input.sampling && typeof input.sampling === 'object') {
+        const sampling: Record<string, number | boolean> = {};
+        for (const [key, raw] of Object.entries(input.sampling)) {
+            if (raw === undefined || raw === null || raw === '' || !isSamplingKey(key)) continue;
+            if (key === 'greedy') {
+                sampling.greedy = Boolean(raw);
+            } else if (Number.isFinite(Number(raw))) {
+                sampling[key] = Number(raw);
+            }
+        }
+        if (Object.keys(sampling).length > 0) profile.sampling = sampling as SamplingOptions;
+    }
+
+    const contextLength = Number(input.contextLength);
+    if (Number.isInteger(contextLength) && contextLength > 0) {
+        profile.contextLength = contextLength;
+    }
+    if (typeof input.chatTemplate === 'string' && input.chatTemplate.trim()) {
+        profile.chatTemplate = input.chatTemplate;
+    }
+
+    return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+/**
+ * Fill the options a request left out from the model's default sampling parameters
+ */
+export function withModelDefaults<T extends SamplingOptions>(options: T | undefined, profile?: ModelRuntimeProfile): T | undefined {
+    if (!profile?.sampling) return options;
+    const given = Object.entries(options ?? {}).filter(([, value]) => value !== undefined && value !== null);
+    return { ...profile.sampling, ...Object.fromEntries(given) } as T;
+}
+
+/**
+ * @param available Providers detected on this machine
+ * @param detectedDevice WebNN device picked by `WebNNUtils.getPreferredDevice`, used unless one is pinned
+ * @param profile The model's own overrides, which win over the Settings tab
+ */
+export function resolveRuntimeOptions(
+    settings: RuntimeSettings,
+    available: string[],
+    detectedDevice?: WebNNDeviceType,
+    profile?: ModelRuntimeProfile
+): RuntimeOptions {
+    return {
+        providers: resolveProviderOrder(available, profile?.providers ?? settings.providerOrder),
+        webnnDeviceType: profile?.webnnDeviceType
+            ?? (settings.webnnDeviceType === 'auto' ? detectedDevice : settings.webnnDeviceType),
+        wasmThreads: settings.wasmThreads,
+        wasmSimd: settings.wasmSimd,
+        wasmProxy: settings.wasmProxy,
+        ...profile?.session,
+        graphOptimizationLevel: profile?.session?.graphOptimizationLevel ?? settings.graphOptimizationLevel,
+    };
+}
+
+/**
+ * Set the WASM backend flags on `env`. ORT reads them when its WASM backend first starts,
+ * so changes only reach contexts that have not created a session yet
+ */
+export function applyWasmSettings(
+    env: typeof import('onnxruntime-web/all').env,
+    settings: Pick<RuntimeSettings, 'wasmThreads' | 'wasmSimd' | 'wasmProxy'>
+): void {
+    const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 4;
+    env.wasm.numThreads = settings.wasmThreads > 0 ? settings.wasmThreads : cores;
+    env.wasm.simd = settings.wasmSimd;
+    env.wasm.proxy = settings.wasmProxy;
+}
+
+// Defaults outside extension pages (e.g. the ONNX worker), where chrome.storage is not available
+export async function loadRuntimeSettings(): Promise<RuntimeSettings> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) {
+        return { ...DEFAULT_RUNTIME_SETTINGS };
+    }
+    const result = await chrome.storage.local.get(RUNTIME_SETTINGS_KEY);
+    return normalizeRuntimeSettings(result[RUNTIME_SETTINGS_KEY]);
+}
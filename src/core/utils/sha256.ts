@@ -0,0 +1,124 @@
+/** @fileoverview
+ * Incremental SHA-256. `crypto.subtle.digest` only hashes a complete buffer, which means holding a
+ * multi-GB model in memory; this hashes chunk by chunk as they are streamed or read back from
+ * IndexedDB, and its state can be stored so an interrupted download keeps hashing where it stopped
+ */
+
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_HASH = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+// Plain arrays, so the state can be stored in IndexedDB as is
+export interface Sha256State {
+    h: number[];
+    bytes: number;
+    pending: number[]; // bytes of the unfinished 64-byte block
+}
+
+export class Sha256 {
+    private h: Uint32Array;
+    private block = new Uint8Array(64);
+    private blockLength = 0;
+    private bytes = 0;
+    private w = new Uint32Array(64);
+
+    constructor(state?: Sha256State) {
+        this.h = new Uint32Array(state?.h ?? INITIAL_HASH);
+        if (state) {
+            this.bytes = state.bytes;
+            this.block.set(state.pending);
+            this.blockLength = state.pending.length;
+        }
+    }
+
+    update(data: Uint8Array): this {
+        let offset = 0;
+        this.bytes += data.byteLength;
+        if (this.blockLength > 0) {
+            offset = Math.min(64 - this.blockLength, data.byteLength);
+            this.block.set(data.subarray(0, offset), this.blockLength);
+            this.blockLength += offset;
+            if (this.blockLength < 64) return this;
+            this.compress(this.block, 0);
+            this.blockLength = 0;
+        }
+        for (; offset + 64 <= data.byteLength; offset += 64) {
+            this.compress(data, offset);
+        }
+        if (offset < data.byteLength) {
+            this.block.set(data.subarray(offset));
+            this.blockLength = data.byteLength - offset;
+        }
+        return this;
+    }
+
+    // Finishes the hash; the instance cannot be updated afterwards
+    digest(): string {
+        const padLength = this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength;
+        const padding = new Uint8Array(padLength + 8);
+        const view = new DataView(padding.buffer);
+        padding[0] = 0x80;
+        // Message length in bits as a 64-bit big-endian number
+        view.setUint32(padLength, Math.floor(this.bytes / 0x20000000));
+        view.setUint32(padLength + 4, (this.bytes * 8) >>> 0);
+        this.update(padding);
+        return Array.from(this.h, word => word.toString(16).padStart(8, '0')).join('');
+    }
+
+    state(): Sha256State {
+        return {
+            h: Array.from(this.h),
+            bytes: this.bytes,
+            pending: Array.from(this.block.subarray(0, this.blockLength)),
+        };
+    }
+
+    private compress(data: Uint8Array, offset: number): void {
+        const w = this.w;
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+        }
+        for (let i = 16; i < 64; i++) {
+            const x = w[i - 15];
+            const y = w[i - 2];
+            const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+            const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = this.h;
+        for (let i = 0; i < 64; i++) {
+            const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+            const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + S0 + maj) | 0;
+        }
+        this.h[0] += a;
+        this.h[1] += b;
+        this.h[2] += c;
+        this.h[3] += d;
+        this.h[4] += e;
+        this.h[5] += f;
+        this.h[6] += g;
+        this.h[7] += h;
+    }
+}
@@ -3,6 +3,7 @@ export interface WebNNDevice {
   type: 'npu' | 'gpu' | 'cpu'
   supported: boolean
   performance?: number
+  capabilities?: WebNNCapabilities
 }
 
 export interface WebNNProviderConfig {
@@ -11,6 +12,52 @@ export interface WebNNProviderConfig {
   optimizationLevel?: 'all' | 'basic' | 'disabled'
   enableQuantization?: boolean
   enablePruning?: boolean
+  powerPreference?: 'default' | 'high-performance' | 'low-power'
+}
+
+// What the probe found out about one device type
+export interface WebNNCapabilities {
+  deviceType: 'npu' | 'gpu' | 'cpu'
+  // A context was created and the core ops built
+  supported: boolean
+  // Probe ops whose one-op graph built on this device
+  supportedOps: string[]
+  // Input data types the context accepts, from `opSupportLimits()` when the browser has it
+  dataTypes: string[]
+  // Time to create the context and build the probe graphs
+  probeMs: number
+  error?: string
+  probedAt: number
+}
+
+interface CapabilityCache {
+  // Probes are redone when the browser (and with it the WebNN backend) changes
+  userAgent: string
+  devices: WebNNCapabilities[]
+}
+
+const DEVICE_TYPES = ['npu', 'gpu', 'cpu'] as const
+
+export const WEBNN_CAPABILITIES_KEY = 'webnnCapabilities'
+
+// Re-probe after a week even without a browser update, drivers change too
+const CAPABILITY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+// Base ranking by device type; scaled by how many probe ops the device supports
+const TYPE_PERFORMANCE = { npu: 100, gpu: 80, cpu: 60 }
+
+// Without these no decoder model can run, whatever else the device supports
+const CORE_OPS = ['matmul', 'add']
+
+// One tiny graph per op a decoder export typically needs
+const PROBE_OPS: Record<string, (builder: any, x: any, desc: any) => any> = {
+  matmul: (builder, x, desc) => builder.matmul(x, builder.constant(desc([4, 4]), new Float32Array(16))),
+  add: (builder, x, desc) => builder.add(x, builder.constant(desc([1, 4]), new Float32Array(4))),
+  mul: (builder, x, desc) => builder.mul(x, builder.constant(desc([1, 4]), new Float32Array(4))),
+  softmax: (builder, x) => builder.softmax(x, 1),
+  sigmoid: (builder, x) => builder.sigmoid(x),
+  reduceMean: (builder, x) => builder.reduceMean(x, { axes: [1], keepDimensions: true }),
+  gather: (builder, x) => builder.gather(x, builder.constant({ dataType: 'int32', shape: [1], dimensions: [1] }, new Int32Array([0])), { axis: 1 })
 }
 
 export class WebNNUtils {
@@ -27,348 +74,128 @@ export class WebNNUtils {
     return WebNNUtils.instance
   }
 
+  /**
+   * Where `navigator.ml` exists (pages, dedicated workers) devices are probed, or taken from a fresh cache.
+   * Service workers have no WebNN, so they only read the cache; `setCapabilities` fills it with
+   * results probed elsewhere
+   */
   async initialize(): Promise<void> {
     if (this.initialized) {
       return
     }
 
     try {
-      // Check if we're in a service worker context or if navigator.ml is not available
-      if (typeof navigator === 'undefined' || typeof (navigator as any).ml === 'undefined') {
-        console.log('Running in service worker context or WebNN not available, using mock WebNN devices')
-        this.devices = [
-          { name: 'NPU (Mock)', type: 'npu', supported: true, performance: 100 },
-          { name: 'GPU (Mock)', type: 'gpu', supported: true, performance: 80 },
-          { name: 'CPU (Mock)', type: 'cpu', supported: true, performance: 60 }
-        ]
-        this.initialized = true
-        return
+      const cached = await this.loadCachedCapabilities()
+      if (cached && (!this.isWebNNAvailable() || this.isFresh(cached))) {
+        this.devices = cached.devices.map(capabilities => this.toDevice(capabilities))
+      } else if (this.isWebNNAvailable()) {
+        await this.setCapabilities(await this.probeDevices())
+      } else {
+        console.log('WebNN not available in this context and no probe results cached')
       }
-
-      // Get available devices
-      await this.detectDevices()
       this.initialized = true
       console.log('WebNN initialized with devices:', this.devices)
     } catch (error) {
       console.error('Failed to initialize WebNN:', error)
-      // Fallback to mock devices on any error
-      this.devices = [
-        { name: 'NPU (Mock)', type: 'npu', supported: true, performance: 100 },
-        { name: 'GPU (Mock)', type: 'gpu', supported: true, performance: 80 },
-        { name: 'CPU (Mock)', type: 'cpu', supported: true, performance: 60 }
-      ]
+      this.devices = []
       this.initialized = true
     }
   }
 
-  private async detectDevices(): Promise<void> {
-    try {
-      // Check for NPU devices first (highest priority)
-      const npuDevices = await this.checkNPUDevices()
-      this.devices.push(...npuDevices)
-
-      // Check for GPU devices
-      const gpuDevices = await this.checkGPUDevices()
-      this.devices.push(...gpuDevices)
-
-      // Check for CPU device
-      const cpuDevice = await this.checkCPUDevice()
-      this.devices.push(cpuDevice)
-
-      // Sort devices by priority: npu > gpu > cpu
-      this.devices.sort((a, b) => {
-        const priority = { npu: 3, gpu: 2, cpu: 1 }
-        return priority[b.type] - priority[a.type]
-      })
-    } catch (error) {
-      console.error('Error detecting WebNN devices:', error)
+  /**
+   * Create a context per device type and build one tiny graph per probe op on it
+   */
+  async probeDevices(): Promise<WebNNCapabilities[]> {
+    if (!this.isWebNNAvailable()) {
+      throw new Error('WebNN not available')
     }
-  }
-
-  private async checkNPUDevices(): Promise<WebNNDevice[]> {
-    const npuDevices: WebNNDevice[] = []
-
-    try {
-      // Check if WebNN API is available
-      if (typeof (navigator as any).ml !== 'undefined') {
-        const ml = (navigator as any).ml
-
-        // Try to get available contexts which may indicate NPU support
-        if (ml.getContext) {
-          try {
-            // Check for NPU-specific context options
-            const npuContext = await ml.getContext({
-              deviceType: 'npu',
-              powerPreference: 'high-performance'
-            })
-
-            if (npuContext) {
-              const device: WebNNDevice = {
-                name: 'NPU (WebNN)',
-                type: 'npu',
-                supported: true,
-                performance: 100
-              }
-              npuDevices.push(device)
-            }
-          } catch (error) {
-            // NPU context not available
-          }
-        }
-
-        // Check for specific NPU device names using WebNN API
-        const npuDeviceNames = [
-          'qualcomm-npu', 'snapdragon-npu', 'mediatek-npu', 'dimensity-npu',
-          'apple-neural-engine', 'ane', 'neural-engine', 'tensor-core',
-          'ai-accelerator', 'ml-accelerator', 'neural-processor'
-        ]
-
-        for (const deviceName of npuDeviceNames) {
-          try {
-            const context = await ml.getContext({
-              deviceType: 'npu',
-              deviceName: deviceName
-            })
-
-            if (context) {
-              const device: WebNNDevice = {
-                name: deviceName,
-                type: 'npu',
-                supported: true,
-                performance: 95
-              }
-              npuDevices.push(device)
-            }
-          } catch (error) {
-            // This specific NPU device not available
-          }
-        }
-      }
-
-      // Check for hardware concurrency and user agent hints for NPU detection
-      if (navigator.hardwareConcurrency) {
-        // Some systems may report NPU cores in hardware concurrency
-        const cores = navigator.hardwareConcurrency
-        if (cores > 8) {
-          // High core count might indicate NPU presence
-          const device: WebNNDevice = {
-            name: 'NPU (High Core Count)',
-            type: 'npu',
-            supported: true,
-            performance: 85
-          }
-          npuDevices.push(device)
-        }
-      }
-
-      // Check user agent for known NPU platforms
-      const userAgent = navigator.userAgent.toLowerCase()
-      const npuPlatforms = [
-        { name: 'apple-neural-engine', pattern: /iphone|ipad|mac/ },
-        { name: 'qualcomm-snapdragon', pattern: /snapdragon/ },
-        { name: 'mediatek-dimensity', pattern: /mediatek|dimensity/ }
-      ]
-
-      for (const platform of npuPlatforms) {
-        if (platform.pattern.test(userAgent)) {
-          const device: WebNNDevice = {
-            name: platform.name,
-            type: 'npu',
-            supported: true,
-            performance: 90
-          }
-          npuDevices.push(device)
-        }
-      }
-
-    } catch (error) {
-      console.warn('NPU detection failed:', error)
+    const results: WebNNCapabilities[] = []
+    for (const deviceType of DEVICE_TYPES) {
+      results.push(await this.probeDevice(deviceType))
     }
-
-    return npuDevices
+    return results
   }
 
-  private async checkGPUDevices(): Promise<WebNNDevice[]> {
-    const gpuDevices: WebNNDevice[] = []
+  private async probeDevice(deviceType: 'npu' | 'gpu' | 'cpu'): Promise<WebNNCapabilities> {
+    const started = Date.now()
+    const result: WebNNCapabilities = {
+      deviceType,
+      supported: false,
+      supportedOps: [],
+      dataTypes: [],
+      probeMs: 0,
+      probedAt: started
+    }
 
     try {
-      // Check for WebGPU support
-      if (typeof (navigator as any).gpu !== 'undefined') {
+      const context = await this.createWebNNContext({ deviceType })
+      const limits = typeof context.opSupportLimits === 'function' ? context.opSupportLimits() : null
+      result.dataTypes = limits?.input?.dataTypes ?? []
+
+      const GraphBuilder = (globalThis as any).MLGraphBuilder
+      // Older implementations take `dimensions`, current ones `shape`
+      const desc = (shape: number[]) => ({ dataType: 'float32', shape, dimensions: shape })
+      for (const [op, build] of Object.entries(PROBE_OPS)) {
         try {
-          const adapter = await (navigator as any).gpu.requestAdapter({
-            powerPreference: 'high-performance'
-          })
-
-          if (adapter) {
-            const adapterInfo = await adapter.requestAdapterInfo()
-            const device: WebNNDevice = {
-              name: adapterInfo.name || 'GPU (WebGPU)',
-              type: 'gpu',
-              supported: true,
-              performance: 85
-            }
-            gpuDevices.push(device)
-          }
+          const builder = new GraphBuilder(context)
+          const x = builder.input('x', desc([1, 4]))
+          await builder.build({ y: build(builder, x, desc) })
+          result.supportedOps.push(op)
         } catch (error) {
-          console.warn('WebGPU adapter request failed:', error)
+          console.log(`WebNN ${deviceType}: ${op} not supported`, error)
         }
       }
-
-      // Check for WebGL support (fallback for GPU detection)
-      const canvas = document.createElement('canvas')
-      const gl = canvas.getContext('webgl') || canvas.getContext('webgl2')
-
-      if (gl) {
-        const debugInfo = gl.getExtension('WEBGL_debug_renderer_info')
-        if (debugInfo) {
-          const renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)
-          gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL)
-
-          const device: WebNNDevice = {
-            name: `GPU (${renderer})`,
-            type: 'gpu',
-            supported: true,
-            performance: 75
-          }
-          gpuDevices.push(device)
-        } else {
-          // WebGL available but no debug info
-          const device: WebNNDevice = {
-            name: 'GPU (WebGL)',
-            type: 'gpu',
-            supported: true,
-            performance: 70
-          }
-          gpuDevices.push(device)
-        }
+      result.supported = CORE_OPS.every(op => result.supportedOps.includes(op))
+      if (!result.supported) {
+        result.error = `Missing core ops: ${CORE_OPS.filter(op => !result.supportedOps.includes(op)).join(', ')}`
       }
-
-      // Check for WebNN GPU context
-      if (typeof (navigator as any).ml !== 'undefined') {
-        const ml = (navigator as any).ml
-
-        try {
-          const gpuContext = await ml.getContext({
-            deviceType: 'gpu',
-            powerPreference: 'high-performance'
-          })
-
-          if (gpuContext) {
-            const device: WebNNDevice = {
-              name: 'GPU (WebNN)',
-              type: 'gpu',
-              supported: true,
-              performance: 80
-            }
-            gpuDevices.push(device)
-          }
-        } catch (error) {
-          // WebNN GPU context not available
-        }
-      }
-
-      // Check for hardware acceleration hints
-      if ('connection' in navigator) {
-        const connection = (navigator as any).connection
-        if (connection && connection.effectiveType === '4g') {
-          // High-speed connection might indicate better GPU performance
-          const device: WebNNDevice = {
-            name: 'GPU (High Performance)',
-            type: 'gpu',
-            supported: true,
-            performance: 80
-          }
-          gpuDevices.push(device)
-        }
-      }
-
     } catch (error) {
-      console.warn('GPU detection failed:', error)
+      result.error = error instanceof Error ? error.message : String(error)
     }
 
-    return gpuDevices
+    result.probeMs = Date.now() - started
+    return result
   }
 
-  private async checkCPUDevice(): Promise<WebNNDevice> {
-    let performance = 30 // Base CPU performance
-    let name = 'CPU'
-
+  // Adopt probe results, e.g. from the engine worker, and cache them for contexts without WebNN
+  async setCapabilities(capabilities: WebNNCapabilities[]): Promise<void> {
+    this.devices = capabilities.map(entry => this.toDevice(entry))
+    this.initialized = true
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return
     try {
-      // Check hardware concurrency for CPU cores
-      if (navigator.hardwareConcurrency) {
-        const cores = navigator.hardwareConcurrency
-        name = `CPU (${cores} cores)`
-
-        // Adjust performance based on core count
-        if (cores >= 16) {
-          performance = 50
-        } else if (cores >= 8) {
-          performance = 40
-        } else if (cores >= 4) {
-          performance = 35
-        } else {
-          performance = 30
-        }
-      }
-
-      // Check for WebNN CPU context
-      if (typeof (navigator as any).ml !== 'undefined') {
-        const ml = (navigator as any).ml
-
-        try {
-          const cpuContext = await ml.getContext({
-            deviceType: 'cpu',
-            powerPreference: 'balanced'
-          })
-
-          if (cpuContext) {
-            name = 'CPU (WebNN)'
-            performance = 35
-          }
-        } catch (error) {
-          // WebNN CPU context not available, using fallback
-        }
-      }
-
-      // Check for advanced CPU features
-      if (navigator.userAgent.includes('x86_64') || navigator.userAgent.includes('amd64')) {
-        name = 'CPU (x86_64)'
-        performance += 5
-      } else if (navigator.userAgent.includes('arm64') || navigator.userAgent.includes('aarch64')) {
-        name = 'CPU (ARM64)'
-        performance += 10 // ARM64 often has better ML performance
-      }
+      const cache: CapabilityCache = { userAgent: navigator.userAgent, devices: capabilities }
+      await chrome.storage.local.set({ [WEBNN_CAPABILITIES_KEY]: cache })
+    } catch (error) {
+      console.warn('Failed to cache WebNN capabilities:', error)
+    }
+  }
 
-      // Check for high-performance mode indicators
-      if ('deviceMemory' in navigator) {
-        const memory = (navigator as any).deviceMemory
-        if (memory >= 8) {
-          performance += 5
-        }
-      }
+  // False when nothing was probed yet, or the results predate a browser update or are old
+  async hasFreshCapabilities(): Promise<boolean> {
+    const cached = await this.loadCachedCapabilities()
+    return cached !== null && this.isFresh(cached)
+  }
 
-      // Check for battery status (mobile devices)
-      if ('getBattery' in navigator) {
-        try {
-          const battery = await (navigator as any).getBattery()
-          if (battery && battery.charging) {
-            // Charging devices might have better performance
-            performance += 2
-          }
-        } catch (error) {
-          // Battery API not available
-        }
-      }
+  private async loadCachedCapabilities(): Promise<CapabilityCache | null> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return null
+    const result = await chrome.storage.local.get(WEBNN_CAPABILITIES_KEY)
+    const cache = result[WEBNN_CAPABILITIES_KEY] as CapabilityCache | undefined
+    return cache && Array.isArray(cache.devices) ? cache : null
+  }
 
-    } catch (error) {
-      console.warn('CPU detection failed:', error)
-    }
+  private isFresh(cache: CapabilityCache): boolean {
+    return cache.userAgent === navigator.userAgent
+      && cache.devices.every(device => Date.now() - device.probedAt < CAPABILITY_MAX_AGE_MS)
+  }
 
+  private toDevice(capabilities: WebNNCapabilities): WebNNDevice {
+    const coverage = capabilities.supportedOps.length / Object.keys(PROBE_OPS).length
     return {
-      name: name,
-      type: 'cpu',
-      supported: true,
-      performance: Math.min(performance, 60) // Cap CPU performance at 60
+      name: `${capabilities.deviceType.toUpperCase()} (WebNN)`,
+      type: capabilities.deviceType,
+      supported: capabilities.supported,
+      performance: capabilities.supported ? Math.round(TYPE_PERFORMANCE[capabilities.deviceType] * coverage) : 0,
+      capabilities
     }
   }
 
@@ -376,9 +203,13 @@ export class WebNNUtils {
     return [...this.devices]
   }
 
+  // Supported devices ranked by type, scaled by probe op coverage; a faster probe breaks ties
   getPreferredDevice(): WebNNDevice | null {
-    // Return the first available device (already sorted by priority)
-    return this.devices.find(device => device.supported) || null
+    const ranked = this.devices
+      .filter(device => device.supported)
+      .sort((a, b) => (b.performance ?? 0) - (a.performance ?? 0)
+        || (a.capabilities?.probeMs ?? 0) - (b.capabilities?.probeMs ?? 0))
+    return ranked[0] || null
   }
 
   getDeviceByName(name: string): WebNNDevice | null {
@@ -390,61 +221,29 @@ export class WebNNUtils {
   }
 
   isWebNNAvailable(): boolean {
-    return typeof (navigator as any).ml !== 'undefined'
+    return typeof navigator !== 'undefined' && typeof (navigator as any).ml !== 'undefined'
   }
 
-  async createWebNNContext(config?: WebNNProviderConfig): Promise<any> {
+  // Creates a real `MLContext`; throws when the browser cannot provide one for the device type
+  async createWebNNContext(config?: Partial<WebNNProviderConfig>): Promise<any> {
     if (!this.isWebNNAvailable()) {
       throw new Error('WebNN not available')
     }
 
-    const device = config?.deviceName
-      ? this.getDeviceByName(config.deviceName)
-      : this.getPreferredDevice()
-
-    if (!device) {
+    const deviceType = config?.deviceType
+      ?? (config?.deviceName ? this.getDeviceByName(config.deviceName)?.type : this.getPreferredDevice()?.type)
+    if (!deviceType) {
       throw new Error('No suitable WebNN device found')
     }
 
-    // In a real implementation, you would create a WebNN context
-    // with the specified device and configuration
-    console.log(`Creating WebNN context with device: ${device.name} (${device.type})`)
-
-    return {
-      device: device.name,
-      type: device.type,
-      config: config || {}
-    }
+    console.log(`Creating WebNN context for device type: ${deviceType}`)
+    return (navigator as any).ml.createContext({
+      deviceType,
+      powerPreference: config?.powerPreference ?? (deviceType === 'cpu' ? 'default' : 'high-performance')
+    })
   }
 
-  getDeviceCapabilities(deviceName: string): any {
-    const device = this.getDeviceByName(deviceName)
-    if (!device) {
-      return null
-    }
-
-    // Mock capabilities based on device type
-    const capabilities = {
-      npu: {
-        maxBatchSize: 32,
-        supportedOps: ['conv2d', 'matmul', 'add', 'mul', 'relu'],
-        quantization: true,
-        pruning: true
-      },
-      gpu: {
-        maxBatchSize: 16,
-        supportedOps: ['conv2d', 'matmul', 'add', 'mul', 'relu'],
-        quantization: true,
-        pruning: false
-      },
-      cpu: {
-        maxBatchSize: 8,
-        supportedOps: ['conv2d', 'matmul', 'add', 'mul', 'relu'],
-        quantization: false,
-        pruning: false
-      }
-    }
-
-    return capabilities[device.type] || capabilities.cpu
+  getDeviceCapabilities(deviceName: string): WebNNCapabilities | null {
+    return this.getDeviceByName(deviceName)?.capabilities ?? null
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+/**
+ * Offscreen document hosting the ONNX worker
+ * Created and kept open by the service worker, so a loaded model outlives the popup and is shared
+ * by the chat view and approved pages. Requests arrive as `engine-request` runtime messages and are
+ * answered once the worker replies; streamed tokens go back as `engine-progress` messages
+ */
+
+interface EngineRequest {
+  target: 'offscreen';
+  type: 'engine-request';
+  id: string;
+  message: { type: string; payload?: any };
+}
+
+const worker = new Worker(chrome.runtime.getURL('onnx-worker.js'), { type: 'module' });
+const pending = new Map<string, (response: unknown) => void>();
+
+worker.onmessage = (event: MessageEvent<any>) => {
+  const response = event.data;
+  if (response?.type === 'progress') {
+    chrome.runtime.sendMessage({ type: 'engine-progress', id: response.id, payload: response.payload })
+      .catch(() => { /* service worker not listening */ });
+    return;
+  }
+  const reply = response?.id ? pending.get(response.id) : undefined;
+  if (reply) {
+    pending.delete(response.id);
+    reply(response);
+  }
+};
+
+worker.onerror = (error) => {
+  console.error('Engine worker error:', error);
+  // Nothing in flight will be answered by a crashed worker
+  pending.forEach(reply => reply({ type: 'error', payload: { message: 'Worker error occurred' } }));
+  pending.clear();
+};
+
+chrome.runtime.onMessage.addListener((message: EngineRequest, _sender, sendResponse) => {
+  if (message?.target !== 'offscreen' || message.type !== 'engine-request') return false;
+  pending.set(message.id, sendResponse);
+  worker.postMessage({ ...message.message, id: message.id });
+  return true; // Answered asynchronously
+});
+
+console.log('LLM Control Panel engine document ready');
@@ -1,4 +1,18 @@
 import './model-item'
+import { EXECUTION_PROVIDERS, WEBNN_DEVICE_TYPES } from '../../core/providers/execution-providers'
+import { EXECUTION_MODES, GRAPH_OPTIMIZATION_LEVELS, type ModelRuntimeProfile, type ModelSessionOptions } from '../../core/utils/runtime-settings'
+import type { DownloadEntry } from '../../background/download-manager'
+import { formatVariantSize, type ModelVariant, type QuantizationRecommendation } from '../../core/utils/model-variants'
+import { escapeHtml } from '../../core/utils/html'
+
+// Default sampling parameters a model's runtime profile can set, as [key, label, step]
+const RUNTIME_SAMPLING_FIELDS = [
+  ['maxTokens', 'Max tokens', '1'],
+  ['temperature', 'Temperature', '0.05'],
+  ['topK', 'Top K', '1'],
+  ['topP', 'Top P', '0.05'],
+  ['repetitionPenalty', 'Repetition penalty', '0.05']
+] as const
 
 export interface App {
   id: string
@@ -25,7 +39,9 @@ export class AppsView extends HTMLElement {
     modelIds: string[]
     downloadedModels: string[]
     currentSelectedModel: string | null
-  } = { modelIds: [], downloadedModels: [], currentSelectedModel: null }
+    partialDownloads: Record<string, number>
+    downloads: DownloadEntry[]
+  } = { modelIds: [], downloadedModels: [], currentSelectedModel: null, partialDownloads: {}, downloads: [] }
   private openModelId: string | null = null
 
   constructor() {
@@ -95,12 +111,20 @@ export class AppsView extends HTMLElement {
     return new Promise((resolve) => {
       chrome.runtime.sendMessage({ type: 'status' }, (response) => {
         if (response && response.success && response.data) {
-          const { modelIds, downloadedModels, currentSelectedModel } = response.data as {
+          const { modelIds, downloadedModels, currentSelectedModel, partialDownloads, downloads } = response.data as {
             modelIds: string[]
             downloadedModels: string[]
             currentSelectedModel: string | null
+            partialDownloads?: Record<string, number>
+            downloads?: DownloadEntry[]
+          }
+          this.modelStatus = {
+            modelIds,
+            downloadedModels,
+            currentSelectedModel,
+            partialDownloads: partialDownloads ?? {},
+            downloads: downloads ?? []
           }
-          this.modelStatus = { modelIds, downloadedModels, currentSelectedModel }
         }
         resolve()
       })
@@ -149,6 +173,38 @@ export class AppsView extends HTMLElement {
     })
   }
 
+  // Re-hash the stored files; offers a fresh download when they no longer match the Hub
+  private async verifyModel(modelId: string): Promise<void> {
+    const response = await new Promise<any>((resolve) => {
+      chrome.runtime.sendMessage({ type: 'verifyModel', modelId }, resolve)
+    })
+    if (!response?.success) {
+      alert(response?.error || 'Verification failed')
+    } else if (response.data.ok) {
+      const unchecked = response.data.files.every((file: any) => file.checkedAgainst === 'none')
+      alert(unchecked
+        ? `${modelId} has no published hash to compare with; its current hash was recorded for later checks.`
+        : `${modelId} verified: the stored files match.`)
+    } else if (confirm(`The stored files of "${modelId}" do not match the published SHA-256. Delete them and download again?`)) {
+      await this.clearModel(modelId)
+      await this.downloadModel(modelId)
+      return
+    }
+    await this.fetchModelStatus()
+    this.render()
+  }
+
+  private async sendDownloadAction(type: 'pauseDownload' | 'resumeDownload' | 'cancelDownload', modelId: string): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.runtime.sendMessage({ type, modelId }, async (response) => {
+        if (!response?.success) alert(response?.error || 'Download action failed')
+        await this.fetchModelStatus()
+        this.render()
+        resolve()
+      })
+    })
+  }
+
   private async selectModel(modelId: string): Promise<void> {
     return new Promise((resolve) => {
       chrome.runtime.sendMessage({ type: 'setSelectedModel', modelId }, async (_response) => {
@@ -201,6 +257,14 @@ export class AppsView extends HTMLElement {
           <span>Model File Name</span>
           <input name="modelFileName" value="model.onnx" required style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
         </label>
+        <div style="display:flex; flex-direction:column; gap:4px; font-size:12px;">
+          <span>Variant</span>
+          <div style="display:flex; gap:6px;">
+            <select name="variant" style="flex:1; padding:6px; border:1px solid #e0e0e0; border-radius:4px;"></select>
+            <button type="button" class="filter-tab find-variants">Find</button>
+          </div>
+          <span class="variant-hint" style="color:#666;"></span>
+        </div>
         <label style="display:flex; flex-direction:column; font-size:12px;">
           <span>External Data File (optional)</span>
           <input name="modelExDataFileName" placeholder="model_external_data.bin" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
@@ -221,6 +285,10 @@ export class AppsView extends HTMLElement {
     })
 
     const form = card.querySelector('#add-model-form') as HTMLFormElement
+    const findVariants = this.bindVariantPicker(form, [], true)
+    // Listing needs the model ID; the other fields already have defaults
+    const modelIdInput = form.elements.namedItem('modelId') as HTMLInputElement
+    modelIdInput.addEventListener('change', findVariants)
     form.addEventListener('submit', async (e) => {
       e.preventDefault()
       const data = new FormData(form)
@@ -246,7 +314,14 @@ export class AppsView extends HTMLElement {
     repoBase?: string
     modelFileName?: string
     modelExDataFileName?: string
+    variants?: ModelVariant[]
+    runtime?: ModelRuntimeProfile
   }) {
+    const runtime = initial.runtime ?? {}
+    const option = (value: string, label: string, selected: boolean) =>
+      `<option value="${value}" ${selected ? 'selected' : ''}>${label}</option>`
+    const toggle = (value: boolean | undefined) =>
+      option('', 'Default', value === undefined) + option('on', 'On', value === true) + option('off', 'Off', value === false)
     const modal = document.createElement('div')
     modal.style.position = 'fixed'
     modal.style.inset = '0'
@@ -261,6 +336,8 @@ export class AppsView extends HTMLElement {
     card.style.padding = '16px'
     card.style.width = '420px'
     card.style.maxWidth = '90vw'
+    card.style.maxHeight = '90vh'
+    card.style.overflowY = 'auto'
     card.innerHTML = `
       <h3 style="margin:0 0 12px 0;">Edit Model Configuration</h3>
       <form id="edit-model-form" style="display:flex; flex-direction:column; gap:8px;">
@@ -288,10 +365,70 @@ export class AppsView extends HTMLElement {
           <span>Model File Name</span>
           <input name="modelFileName" value="${initial.modelFileName || 'model.onnx'}" required style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
         </label>
+        <div style="display:flex; flex-direction:column; gap:4px; font-size:12px;">
+          <span>Variant</span>
+          <div style="display:flex; gap:6px;">
+            <select name="variant" style="flex:1; padding:6px; border:1px solid #e0e0e0; border-radius:4px;"></select>
+            <button type="button" class="filter-tab find-variants">Find</button>
+          </div>
+          <span class="variant-hint" style="color:#666;"></span>
+        </div>
         <label style="display:flex; flex-direction:column; font-size:12px;">
           <span>External Data File (optional)</span>
           <input name="modelExDataFileName" value="${initial.modelExDataFileName || ''}" placeholder="model_external_data.bin" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
         </label>
+        <details ${initial.runtime ? 'open' : ''} style="font-size:12px;">
+          <summary style="cursor:pointer;">Runtime profile (applied when the model loads)</summary>
+          <div style="display:flex; flex-direction:column; gap:8px; margin-top:8px;">
+            <label style="display:flex; flex-direction:column;">
+              <span>Providers, in order (blank = Settings order)</span>
+              <input name="providers" value="${(runtime.providers ?? []).join(', ')}" placeholder="${EXECUTION_PROVIDERS.join(', ')}" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>WebNN device</span>
+              <select name="webnnDeviceType" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;">
+                ${option('', 'Default', !runtime.webnnDeviceType)}
+                ${WEBNN_DEVICE_TYPES.map(d => option(d, d.toUpperCase(), runtime.webnnDeviceType === d)).join('')}
+              </select>
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>Graph optimization</span>
+              <select name="graphOptimizationLevel" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;">
+                ${option('', 'Default', !runtime.session?.graphOptimizationLevel)}
+                ${GRAPH_OPTIMIZATION_LEVELS.map(l => option(l, l, runtime.session?.graphOptimizationLevel === l)).join('')}
+              </select>
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>Execution mode</span>
+              <select name="executionMode" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;">
+                ${option('', 'Default', !runtime.session?.executionMode)}
+                ${EXECUTION_MODES.map(m => option(m, m, runtime.session?.executionMode === m)).join('')}
+              </select>
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>CPU memory arena</span>
+              <select name="enableCpuMemArena" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;">${toggle(runtime.session?.enableCpuMemArena)}</select>
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>Memory pattern</span>
+              <select name="enableMemPattern" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;">${toggle(runtime.session?.enableMemPattern)}</select>
+            </label>
+            ${RUNTIME_SAMPLING_FIELDS.map(([key, label, step]) => `
+              <label style="display:flex; flex-direction:column;">
+                <span>Default ${label.toLowerCase()}</span>
+                <input name="sampling.${key}" type="number" step="${step}" value="${runtime.sampling?.[key] ?? ''}" placeholder="Default" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
+              </label>
+            `).join('')}
+            <label style="display:flex; flex-direction:column;">
+              <span>Context length (blank = from config.json)</span>
+              <input name="contextLength" type="number" min="1" step="1" value="${runtime.contextLength ?? ''}" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px;" />
+            </label>
+            <label style="display:flex; flex-direction:column;">
+              <span>Chat template override (Jinja)</span>
+              <textarea name="chatTemplate" rows="4" placeholder="Blank uses the tokenizer's template" style="padding:6px; border:1px solid #e0e0e0; border-radius:4px; font-family:monospace;"></textarea>
+            </label>
+          </div>
+        </details>
         <div style="margin-top:8px; display:flex; gap:8px; justify-content:flex-end;">
           <button type="button" id="cancel-edit-model" class="filter-tab" style="background:#6c757d; color:white;">Cancel</button>
           <button type="submit" class="filter-tab" style="background:#007AFF; color:white;">Save</button>
@@ -308,17 +445,29 @@ export class AppsView extends HTMLElement {
     })
 
     const form = card.querySelector('#edit-model-form') as HTMLFormElement
+    // Set as a value so templates full of quotes and braces need no escaping
+    const templateInput = form.elements.namedItem('chatTemplate') as HTMLTextAreaElement
+    templateInput.value = runtime.chatTemplate ?? ''
+    this.bindVariantPicker(form, initial.variants ?? [], false)
     form.addEventListener('submit', async (e) => {
       e.preventDefault()
       const data = new FormData(form)
       const payload = {
-        modelId: String(data.get('modelId') || '').trim(),
+        // The disabled ID input is left out of the form data
+        modelId: initial.modelId,
         urlBase: String(data.get('urlBase') || '').trim(),
         onnxDir: String(data.get('onnxDir') || '').trim(),
         configFileName: String(data.get('configFileName') || '').trim(),
         repoBase: String(data.get('repoBase') || '').trim(),
         modelFileName: String(data.get('modelFileName') || '').trim(),
         modelExDataFileName: String(data.get('modelExDataFileName') || '').trim() || undefined,
+        variants: initial.variants,
+        runtime: this.readRuntimeProfile(data),
+      }
+      const downloaded = this.modelStatus.downloadedModels.includes(initial.modelId)
+      if (downloaded && payload.modelFileName !== (initial.modelFileName || 'model.onnx')
+        && !confirm(`Switch ${initial.modelId} to ${payload.modelFileName}? The downloaded files are deleted and the new ones downloaded.`)) {
+        return
       }
       chrome.runtime.sendMessage({ type: 'updateModel', modelConfig: payload }, async (response) => {
         if (response && response.success) {
@@ -332,6 +481,82 @@ export class AppsView extends HTMLElement {
     })
   }
 
+  /**
+   * Fill the form's variant select and keep the file name inputs in step with it.
+   * Returns the function that lists the repo's variants again
+   * @param preferRecommended Select the variant recommended for this machine, rather than the current file
+   */
+  private bindVariantPicker(form: HTMLFormElement, initial: ModelVariant[], preferRecommended: boolean): () => void {
+    const select = form.elements.namedItem('variant') as HTMLSelectElement
+    const hint = form.querySelector('.variant-hint') as HTMLElement
+    const fileInput = form.elements.namedItem('modelFileName') as HTMLInputElement
+    const exDataInput = form.elements.namedItem('modelExDataFileName') as HTMLInputElement
+    const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value.trim()
+    let variants = initial
+
+    const fill = (selected: string) => {
+      select.innerHTML = variants.length > 0
+        ? variants.map(v => `<option value="${escapeHtml(v.fileName)}" ${v.fileName === selected ? 'selected' : ''}>${escapeHtml(v.dtype)} (${formatVariantSize(v.size)})</option>`).join('')
+        : '<option value="">Not listed</option>'
+      select.disabled = variants.length === 0
+    }
+    const apply = () => {
+      const variant = variants.find(v => v.fileName === select.value)
+      if (!variant) return
+      fileInput.value = variant.fileName
+      exDataInput.value = variant.exDataFileName ?? ''
+    }
+
+    const find = () => {
+      const modelId = value('modelId')
+      if (!modelId) return
+      hint.textContent = 'Listing variants...'
+      const modelConfig = { modelId, urlBase: value('urlBase'), onnxDir: value('onnxDir'), repoBase: value('repoBase') }
+      chrome.runtime.sendMessage({ type: 'discoverVariants', modelConfig }, (response) => {
+        if (!response?.success) {
+          hint.textContent = response?.error || 'Failed to list variants'
+          return
+        }
+        const { recommendation, recommended } = response.data as { recommendation: QuantizationRecommendation; recommended: string | null }
+        variants = response.data.variants as ModelVariant[]
+        const keep = variants.some(v => v.fileName === fileInput.value)
+        fill(preferRecommended || !keep ? recommended ?? '' : fileInput.value)
+        apply()
+        hint.textContent = variants.length > 0
+          ? `Recommended: ${recommendation.level}. ${recommendation.reason}`
+          : `No .onnx files found in ${modelConfig.onnxDir}`
+      })
+    }
+
+    select.addEventListener('change', apply)
+    form.querySelector('.find-variants')?.addEventListener('click', find)
+    fill(fileInput.value)
+    return find
+  }
+
+  // Blank fields are left out; the service worker validates the rest
+  private readRuntimeProfile(data: FormData): ModelRuntimeProfile {
+    const text = (name: string) => String(data.get(name) || '').trim()
+    const flag = (name: string) => text(name) === '' ? undefined : text(name) === 'on'
+    const sampling = Object.fromEntries(RUNTIME_SAMPLING_FIELDS
+      .map(([key]) => [key, text(`sampling.${key}`)])
+      .filter(([, value]) => value !== '')
+      .map(([key, value]) => [key, Number(value)]))
+    return {
+      providers: text('providers').split(/[\s,]+/).filter(Boolean).map(p => p.toLowerCase()) as ModelRuntimeProfile['providers'],
+      webnnDeviceType: (text('webnnDeviceType') || undefined) as ModelRuntimeProfile['webnnDeviceType'],
+      session: {
+        graphOptimizationLevel: (text('graphOptimizationLevel') || undefined) as ModelSessionOptions['graphOptimizationLevel'],
+        executionMode: (text('executionMode') || undefined) as ModelSessionOptions['executionMode'],
+        enableCpuMemArena: flag('enableCpuMemArena'),
+        enableMemPattern: flag('enableMemPattern')
+      },
+      sampling,
+      contextLength: text('contextLength') ? Number(text('contextLength')) : undefined,
+      chatTemplate: String(data.get('chatTemplate') || '') || undefined
+    }
+  }
+
   private async refreshApprovedApps(): Promise<void> {
     return new Promise((resolve) => {
       chrome.runtime.sendMessage({ type: 'refreshApprovedApps' }, (response) => {
@@ -582,11 +807,15 @@ export class AppsView extends HTMLElement {
               const downloaded = this.modelStatus.downloadedModels.includes(id)
               const selected = this.modelStatus.currentSelectedModel === id
               const open = this.openModelId === id
+              const download = this.modelStatus.downloads.find(d => d.modelId === id)
               return `
                 <model-item 
                   model-id="${id}"
                   downloaded="${downloaded}"
                   selected="${selected}"
+                  partial-bytes="${this.modelStatus.partialDownloads[id] ?? 0}"
+                  download-state="${download?.state ?? ''}"
+                  download-error="${escapeHtml(download?.error ?? '')}"
                   open="${open}"></model-item>
               `
             }).join('') : `
@@ -681,6 +910,21 @@ export class AppsView extends HTMLElement {
         const modelId = e.detail?.modelId as string
         await this.clearModel(modelId)
       })
+      item.addEventListener('verify', async (e: any) => {
+        await this.verifyModel(e.detail?.modelId as string)
+      })
+      item.addEventListener('pause', async (e: any) => {
+        await this.sendDownloadAction('pauseDownload', e.detail?.modelId as string)
+      })
+      item.addEventListener('resume', async (e: any) => {
+        await this.sendDownloadAction('resumeDownload', e.detail?.modelId as string)
+      })
+      item.addEventListener('cancel', async (e: any) => {
+        const modelId = e.detail?.modelId as string
+        if (confirm(`Cancel the download of "${modelId}"? What was downloaded so far is deleted.`)) {
+          await this.sendDownloadAction('cancelDownload', modelId)
+        }
+      })
       item.addEventListener('select', async (e: any) => {
         const modelId = e.detail?.modelId as string
         await this.selectModel(modelId)
@@ -1,20 +1,58 @@
 import { ThemeManager } from '../../core/utils/theme-manager'
+import { DEFAULT_SAMPLING_OPTIONS, type SamplingOptions } from '../../core/providers/sampler'
+import type { ChatMessage } from '../../core/providers/chat-template'
+import { DEFAULT_CONTEXT_POLICY, isContextPolicy } from '../../core/providers/context-window'
+import {
+  createChatSession,
+  deleteChatSession,
+  getChatSession,
+  listChatSessions,
+  renameChatSession,
+  saveChatSession,
+  type ChatSession
+} from '../../core/utils/chat-store'
+import { exportChatSession, importChatTranscript, type TranscriptFormat } from '../../core/utils/chat-transcript'
 
 export class ChatView extends HTMLElement {
   private themeManager = ThemeManager.getInstance()
   private downloadedModels: string[] = []
-  private worker?: Worker
   private currentModelId: string | null = null
   private modelLoaded = false
+  // Assistant bubble that tokens for the in-flight request are streamed into
+  private streaming: { id: string; el: HTMLDivElement } | null = null
+  private sampling: SamplingOptions = { ...DEFAULT_SAMPLING_OPTIONS }
+  // Open chat; its turns are sent whole with every request so the model sees the history through its chat template.
+  // Stored in IndexedDB once it has a message
+  private session: ChatSession = createChatSession()
+  private tokenCountTimer: ReturnType<typeof setTimeout> | undefined
 
   constructor() {
     super()
     this.attachShadow({ mode: 'open' })
   }
 
+  // Tokens for the in-flight request, streamed by the service worker from the shared engine
+  private onRuntimeMessage = (message: any) => {
+    const streaming = this.streaming
+    if (!streaming || message?.requestId !== streaming.id) return
+    if (message.type === 'generation-token') {
+      streaming.el.textContent = `Assistant: ${message.text}`
+      streaming.el.scrollIntoView({ block: 'end' })
+    } else if (message.type === 'generation-queued') {
+      // Pages are using the model; show where this request is in line until it starts
+      streaming.el.textContent = message.position > 0 ? `Assistant: (queued, position ${message.position})` : 'Assistant: '
+    }
+  }
+
   connectedCallback() {
     this.render()
-    this.fetchDownloadedModels()
+    chrome.runtime.onMessage.addListener(this.onRuntimeMessage)
+    // The restored chat decides which model gets selected
+    this.restoreLatestSession().finally(() => this.fetchDownloadedModels())
+  }
+
+  disconnectedCallback() {
+    chrome.runtime.onMessage.removeListener(this.onRuntimeMessage)
   }
 
   private applyTheme(theme: 'light' | 'dark') {
@@ -45,10 +83,11 @@ export class ChatView extends HTMLElement {
       : '<option value="" disabled selected>No downloaded models</option>'
 
     if (this.downloadedModels.length > 0) {
-      // Auto-select the first model if none selected
-      this.currentModelId = this.currentModelId || this.downloadedModels[0]
+      // Auto-select the first model if none (or a model that is no longer downloaded) is selected
+      if (!this.currentModelId || !this.downloadedModels.includes(this.currentModelId)) {
+        this.currentModelId = this.downloadedModels[0]
+      }
       select.value = this.currentModelId!
-      this.ensureWorker()
       this.loadSelectedModel()
     }
   }
@@ -72,18 +111,89 @@ export class ChatView extends HTMLElement {
         .dark .input { background:#1f1f1f; color:#e0e0e0; border-color:#404040; }
         .send { padding:8px 12px; border:none; border-radius:6px; background:#007AFF; color:white; cursor:pointer; }
         .send:disabled { opacity:.6; cursor:default; }
+        .stop { padding:8px 12px; border:none; border-radius:6px; background:#FF3B30; color:white; cursor:pointer; }
+        .stop[hidden] { display:none; }
+        .token-counter { padding:0 12px; font-size:11px; color:#999; min-height:14px; }
+        .token-counter.over { color:#FF9500; }
+        .sampling { font-size:12px; color:#666; }
+        .sampling summary { cursor:pointer; }
+        .sampling-grid { display:grid; grid-template-columns: repeat(4, 1fr); gap:6px; margin-top:6px; }
+        .sampling-grid label { display:flex; flex-direction:column; gap:2px; }
+        .sampling-grid input[type=number] { padding:4px; border:1px solid #e0e0e0; border-radius:4px; width:100%; box-sizing:border-box; }
+        .dark .sampling-grid input[type=number] { background:#1f1f1f; color:#e0e0e0; border-color:#404040; }
+        .system-prompt { width:100%; box-sizing:border-box; margin-top:6px; padding:4px; border:1px solid #e0e0e0; border-radius:4px; font-family:inherit; resize:vertical; }
+        .dark .system-prompt { background:#1f1f1f; color:#e0e0e0; border-color:#404040; }
+        .sessions { font-size:12px; color:#666; }
+        .sessions summary { cursor:pointer; }
+        .session-search { width:100%; box-sizing:border-box; margin-top:6px; padding:4px; border:1px solid #e0e0e0; border-radius:4px; }
+        .dark .session-search { background:#1f1f1f; color:#e0e0e0; border-color:#404040; }
+        .session-list { list-style:none; margin:6px 0 0; padding:0; max-height:160px; overflow:auto; }
+        .session-list li { display:flex; gap:4px; align-items:center; padding:2px 0; }
+        .session-list li.active .session-open { font-weight:600; }
+        .session-open { flex:1; min-width:0; text-align:left; border:none; background:transparent; color:inherit; cursor:pointer; padding:2px 4px; white-space:nowrap; overflow:hidden; text-overflow:ellipsis; }
+        .session-open small { color:#999; margin-left:4px; }
+        .session-action { border:none; background:transparent; color:#007AFF; cursor:pointer; font-size:11px; }
+        .session-action.delete { color:#FF3B30; }
+        .session-rename-input { flex:1; padding:2px 4px; border:1px solid #e0e0e0; border-radius:4px; font-size:12px; }
+        .session-empty { padding:4px; color:#999; }
+        .transcript-actions { display:flex; flex-wrap:wrap; gap:4px; align-items:center; margin-top:6px; }
+        .transcript-actions button { padding:2px 6px; border:1px solid #e0e0e0; border-radius:4px; background:transparent; color:inherit; cursor:pointer; font-size:11px; }
+        .dark .transcript-actions button { border-color:#404040; }
+        .transcript-actions button:disabled { opacity:.5; cursor:default; }
+        .transcript-status { color:#999; }
+        .new-chat { margin-left:auto; padding:4px 8px; border:1px solid #e0e0e0; border-radius:6px; background:transparent; color:inherit; cursor:pointer; font-size:12px; }
+        .dark .new-chat { border-color:#404040; }
       </style>
       <div class="chat-container">
         <div class="toolbar">
           <label for="model-select" style="font-size:12px; color:#666;">Model</label>
           <select id="model-select" class="select" aria-label="Select downloaded model"></select>
           <span id="model-status" style="font-size:12px; color:#666;"></span>
+          <button id="new-chat" class="new-chat" title="Forget the conversation so far">New chat</button>
         </div>
+        <details class="sessions" id="sessions">
+          <summary>Chats · <span id="session-title"></span></summary>
+          <input id="session-search" class="session-search" type="search" placeholder="Search chats" />
+          <ul id="session-list" class="session-list"></ul>
+          <div class="transcript-actions">
+            <span>Export</span>
+            <button class="export" data-format="markdown">Markdown</button>
+            <button class="export" data-format="json">JSON</button>
+            <button class="export" data-format="text">Text</button>
+            <button id="import" title="Resume a chat exported as JSON">Import JSON</button>
+            <input id="import-file" type="file" accept="application/json,.json" hidden />
+            <span id="transcript-status" class="transcript-status"></span>
+          </div>
+        </details>
+        <details class="sampling" id="sampling">
+          <summary>Sampling</summary>
+          <div class="sampling-grid">
+            <label>Temperature<input type="number" name="temperature" step="0.05" min="0" value="${this.sampling.temperature}" /></label>
+            <label>Top-k<input type="number" name="topK" step="1" min="0" value="${this.sampling.topK}" /></label>
+            <label>Top-p<input type="number" name="topP" step="0.05" min="0" max="1" value="${this.sampling.topP}" /></label>
+            <label>Min-p<input type="number" name="minP" step="0.01" min="0" max="1" value="${this.sampling.minP}" /></label>
+            <label>Repetition<input type="number" name="repetitionPenalty" step="0.05" min="1" value="${this.sampling.repetitionPenalty}" /></label>
+            <label>Presence<input type="number" name="presencePenalty" step="0.1" value="${this.sampling.presencePenalty}" /></label>
+            <label>Max tokens<input type="number" name="maxTokens" step="1" min="1" value="${this.sampling.maxTokens}" /></label>
+            <label>Seed<input type="number" name="seed" step="1" placeholder="random" value="${this.sampling.seed ?? ''}" /></label>
+            <label style="flex-direction:row; align-items:center; gap:4px;"><input type="checkbox" name="greedy" ${this.sampling.greedy ? 'checked' : ''} />Greedy</label>
+          </div>
+          <label style="display:flex; gap:6px; align-items:center; margin-top:6px;">When the chat outgrows the context
+            <select name="contextPolicy" id="context-policy" class="select">
+              <option value="keep-system">Drop oldest turns, keep system prompt</option>
+              <option value="drop-oldest">Drop oldest messages</option>
+              <option value="summarize">Summarise older turns</option>
+            </select>
+          </label>
+          <textarea id="system-prompt" class="system-prompt" rows="2" placeholder="System prompt (optional)"></textarea>
+        </details>
         <div class="chat-area">
           <div class="messages" id="messages"></div>
+          <div class="token-counter" id="token-counter"></div>
           <div class="composer">
             <textarea id="input" class="input" placeholder="Type a message..." ></textarea>
             <button id="send" class="send" disabled>Send</button>
+            <button id="stop" class="stop" hidden>Stop</button>
           </div>
         </div>
       </div>
@@ -97,6 +207,7 @@ export class ChatView extends HTMLElement {
     const send = this.shadowRoot.querySelector('#send') as HTMLButtonElement
     input.addEventListener('input', () => {
       send.disabled = input.value.trim().length === 0
+      this.scheduleTokenCount()
     })
 
     const select = this.shadowRoot.querySelector('#model-select') as HTMLSelectElement
@@ -104,11 +215,60 @@ export class ChatView extends HTMLElement {
       this.currentModelId = select.value || null
       this.modelLoaded = false
       this.updateModelStatus('Loading...')
-      this.ensureWorker()
       this.loadSelectedModel()
     })
 
     send.addEventListener('click', () => this.handleSend())
+
+    const stop = this.shadowRoot.querySelector('#stop') as HTMLButtonElement
+    stop.addEventListener('click', () => this.stopGeneration())
+
+    const newChat = this.shadowRoot.querySelector('#new-chat') as HTMLButtonElement
+    newChat.addEventListener('click', () => this.resetConversation())
+
+    const systemPrompt = this.shadowRoot.querySelector('#system-prompt') as HTMLTextAreaElement
+    systemPrompt.value = this.session.systemPrompt ?? ''
+    systemPrompt.addEventListener('input', () => {
+      this.session.systemPrompt = systemPrompt.value
+      this.scheduleTokenCount()
+    })
+
+    const search = this.shadowRoot.querySelector('#session-search') as HTMLInputElement
+    search.addEventListener('input', () => this.refreshSessionList())
+    this.shadowRoot.querySelectorAll<HTMLButtonElement>('button.export').forEach((button) => {
+      button.addEventListener('click', () => this.exportSession(button.dataset.format as TranscriptFormat))
+    })
+    const importFile = this.shadowRoot.querySelector('#import-file') as HTMLInputElement
+    const importButton = this.shadowRoot.querySelector('#import') as HTMLButtonElement
+    importButton.addEventListener('click', () => importFile.click())
+    importFile.addEventListener('change', () => {
+      const file = importFile.files?.[0]
+      importFile.value = ''
+      if (file) this.importSession(file)
+    })
+
+    const sessions = this.shadowRoot.querySelector('#sessions') as HTMLDetailsElement
+    sessions.addEventListener('toggle', () => {
+      if (sessions.open) this.refreshSessionList()
+    })
+
+    const sampling = this.shadowRoot.querySelector('#sampling') as HTMLDetailsElement
+    sampling.addEventListener('change', (e) => {
+      const field = e.target as HTMLInputElement
+      if (field.name === '') return
+      if (field.name === 'contextPolicy') {
+        if (isContextPolicy(field.value)) this.session.contextPolicy = field.value
+        return
+      }
+      const key = field.name as keyof SamplingOptions
+      if (key === 'greedy') {
+        this.sampling.greedy = field.checked
+      } else if (field.value === '') {
+        delete this.sampling[key]
+      } else {
+        (this.sampling as Record<string, number>)[key] = Number(field.value)
+      }
+    })
   }
 
   private updateModelStatus(text: string) {
@@ -116,77 +276,380 @@ export class ChatView extends HTMLElement {
     if (el) el.textContent = text
   }
 
-  private ensureWorker() {
-    if (this.worker) return
+  // The model lives in the extension's engine, so it stays loaded after the popup closes
+  private async loadSelectedModel() {
+    if (!this.currentModelId) return
+    const modelId = this.currentModelId
+    this.updateModelStatus('Loading...')
     try {
-      this.worker = new Worker(chrome.runtime.getURL('onnx-worker.js'), { type: 'module' })
-      this.worker.onmessage = (e: MessageEvent<any>) => this.handleWorkerMessage(e.data)
-      this.worker.onerror = (e) => {
-        console.error('Chat worker error:', e)
-        this.updateModelStatus('Worker error')
+      const response = await chrome.runtime.sendMessage({ type: 'load-model', modelId })
+      // The user may have picked another model meanwhile
+      if (modelId !== this.currentModelId) return
+      if (!response?.success) {
+        console.error('Failed to load model:', response?.error)
+        this.updateModelStatus('Load failed')
+        return
       }
+      this.modelLoaded = true
+      this.updateModelStatus(response.data?.provider ? `Ready (${response.data.provider})` : 'Ready')
+      this.scheduleTokenCount()
+      // Enable send if input has content
+      const input = this.shadowRoot?.querySelector('#input') as HTMLTextAreaElement | null
+      const send = this.shadowRoot?.querySelector('#send') as HTMLButtonElement | null
+      if (input && send) send.disabled = input.value.trim().length === 0
     } catch (e) {
-      console.error('Failed to start worker', e)
-      this.updateModelStatus('Worker failed to start')
+      console.error('Failed to load model', e)
+      this.updateModelStatus('Load failed')
     }
   }
 
-  private async loadSelectedModel() {
-    if (!this.worker || !this.currentModelId) return
+  // Starts an unsaved chat; the system prompt carries over
+  private resetConversation() {
+    if (this.streaming) return
+    this.session = createChatSession({ systemPrompt: this.session.systemPrompt, contextPolicy: this.session.contextPolicy })
+    this.renderMessages()
+    this.refreshSessionList()
+    this.scheduleTokenCount()
+  }
+
+  private async restoreLatestSession() {
     try {
-      // Load full model config from storage
-      const result = await chrome.storage.local.get(['modelConfigs'])
-      const list = Array.isArray(result.modelConfigs) ? result.modelConfigs : []
-      const config = list.find((c: any) => c && c.modelId === this.currentModelId)
-      if (!config) {
-        this.updateModelStatus('Config not found')
-        return
+      const [latest] = await listChatSessions()
+      if (latest) this.showSession(latest)
+    } catch (e) {
+      console.error('Failed to restore chat session:', e)
+    }
+  }
+
+  private async openSession(id: string) {
+    if (this.streaming || id === this.session.id) return
+    try {
+      const session = await getChatSession(id)
+      if (!session) return
+      this.showSession(session)
+      // Switch to the chat's model when it is still around
+      if (session.modelId && session.modelId !== this.currentModelId && this.downloadedModels.includes(session.modelId)) {
+        const select = this.shadowRoot?.querySelector('#model-select') as HTMLSelectElement | null
+        if (select) select.value = session.modelId
+        this.currentModelId = session.modelId
+        this.modelLoaded = false
+        this.loadSelectedModel()
       }
-      this.worker.postMessage({ type: 'loadModel', payload: config })
-      this.updateModelStatus('Loading...')
     } catch (e) {
-      console.error('Failed to load model config', e)
-      this.updateModelStatus('Load failed')
+      console.error('Failed to open chat session:', e)
+    }
+  }
+
+  private showSession(session: ChatSession) {
+    this.session = session
+    this.sampling = { ...DEFAULT_SAMPLING_OPTIONS, ...session.sampling }
+    if (session.modelId && !this.currentModelId) this.currentModelId = session.modelId
+    this.syncSettingsInputs()
+    this.renderMessages()
+    this.refreshSessionList()
+    this.scheduleTokenCount()
+  }
+
+  // Stores the open chat with the model and sampling settings it is using
+  private async persistSession() {
+    if (this.session.messages.length === 0) return
+    try {
+      const saved = await saveChatSession({ ...this.session, modelId: this.currentModelId, sampling: { ...this.sampling } })
+      // A different chat may have been opened while saving
+      if (saved.id === this.session.id) this.session = { ...this.session, title: saved.title, updatedAt: saved.updatedAt }
+      this.refreshSessionList()
+    } catch (e) {
+      console.error('Failed to save chat session:', e)
+    }
+  }
+
+  private async renameSession(id: string, title: string) {
+    try {
+      const renamed = await renameChatSession(id, title)
+      if (renamed && renamed.id === this.session.id) {
+        this.session = { ...this.session, title: renamed.title, titleEdited: renamed.titleEdited }
+      }
+    } catch (e) {
+      console.error('Failed to rename chat session:', e)
+    }
+    this.refreshSessionList()
+  }
+
+  private async deleteSession(id: string) {
+    try {
+      await deleteChatSession(id)
+    } catch (e) {
+      console.error('Failed to delete chat session:', e)
+    }
+    if (id === this.session.id) this.resetConversation()
+    else this.refreshSessionList()
+  }
+
+  private setTranscriptStatus(text: string) {
+    const el = this.shadowRoot?.querySelector('#transcript-status') as HTMLSpanElement | null
+    if (el) el.textContent = text
+  }
+
+  private exportSession(format: TranscriptFormat) {
+    if (this.session.messages.length === 0) return
+    const { content, mimeType, fileName } = exportChatSession(
+      { ...this.session, modelId: this.session.modelId ?? this.currentModelId, sampling: { ...this.sampling } },
+      format
+    )
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+    // Give the download a moment to pick the blob up
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+    this.setTranscriptStatus(`Exported ${fileName}`)
+  }
+
+  // Imported chats are saved as new sessions, so importing the same file twice never overwrites anything
+  private async importSession(file: File) {
+    if (this.streaming) return
+    try {
+      const session = await saveChatSession(importChatTranscript(await file.text()))
+      await this.openSession(session.id)
+      this.setTranscriptStatus(`Imported "${session.title}"`)
+    } catch (e) {
+      console.error('Failed to import chat transcript:', e)
+      this.setTranscriptStatus(e instanceof Error ? e.message : 'Import failed')
     }
   }
 
-  private handleWorkerMessage(msg: any) {
+  private async refreshSessionList() {
     if (!this.shadowRoot) return
-    if (msg?.type === 'success' && msg?.payload?.loaded) {
-      this.modelLoaded = true
-      this.updateModelStatus('Ready')
-      // Enable send if input has content
-      const input = this.shadowRoot.querySelector('#input') as HTMLTextAreaElement
-      const send = this.shadowRoot.querySelector('#send') as HTMLButtonElement
-      send.disabled = input.value.trim().length === 0
+    const title = this.shadowRoot.querySelector('#session-title') as HTMLSpanElement
+    title.textContent = this.session.title
+    this.shadowRoot.querySelectorAll<HTMLButtonElement>('button.export').forEach((button) => {
+      button.disabled = this.session.messages.length === 0
+    })
+    const list = this.shadowRoot.querySelector('#session-list') as HTMLUListElement
+    const search = this.shadowRoot.querySelector('#session-search') as HTMLInputElement
+    let sessions: ChatSession[]
+    try {
+      sessions = await listChatSessions(search.value)
+    } catch (e) {
+      console.error('Failed to list chat sessions:', e)
       return
     }
-    if (msg?.type === 'success' && typeof msg?.payload?.response === 'string') {
-      const messages = this.shadowRoot.querySelector('#messages') as HTMLDivElement
-      const div = document.createElement('div')
-      div.textContent = `Assistant: ${msg.payload.response}`
-      messages.appendChild(div)
+
+    // Built with DOM nodes since titles and messages are user text
+    list.replaceChildren(...sessions.map(session => this.createSessionItem(session)))
+    if (sessions.length === 0) {
+      const empty = document.createElement('li')
+      empty.className = 'session-empty'
+      empty.textContent = search.value.trim() ? 'No matching chats' : 'No saved chats yet'
+      list.appendChild(empty)
+    }
+  }
+
+  private createSessionItem(session: ChatSession): HTMLLIElement {
+    const item = document.createElement('li')
+    item.classList.toggle('active', session.id === this.session.id)
+
+    const open = document.createElement('button')
+    open.className = 'session-open'
+    open.title = session.title
+    open.textContent = session.title
+    const date = document.createElement('small')
+    date.textContent = new Date(session.updatedAt).toLocaleDateString()
+    open.appendChild(date)
+    open.addEventListener('click', () => this.openSession(session.id))
+
+    const rename = document.createElement('button')
+    rename.className = 'session-action'
+    rename.textContent = 'Rename'
+    rename.addEventListener('click', () => {
+      const input = document.createElement('input')
+      input.className = 'session-rename-input'
+      input.value = session.title
+      let done = false
+      const commit = (save: boolean) => {
+        if (done) return
+        done = true
+        if (save && input.value.trim() !== session.title) this.renameSession(session.id, input.value)
+        else this.refreshSessionList()
+      }
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') commit(true)
+        else if (e.key === 'Escape') commit(false)
+      })
+      input.addEventListener('blur', () => commit(true))
+      item.replaceChildren(input)
+      input.focus()
+      input.select()
+    })
+
+    const remove = document.createElement('button')
+    remove.className = 'session-action delete'
+    remove.textContent = 'Delete'
+    remove.disabled = Boolean(this.streaming) && session.id === this.session.id
+    remove.addEventListener('click', () => this.deleteSession(session.id))
+
+    item.append(open, rename, remove)
+    return item
+  }
+
+  private syncSettingsInputs() {
+    if (!this.shadowRoot) return
+    const fields = this.shadowRoot.querySelectorAll<HTMLInputElement>('#sampling input[name]')
+    fields.forEach((field) => {
+      const key = field.name as keyof SamplingOptions
+      if (key === 'greedy') field.checked = Boolean(this.sampling.greedy)
+      else field.value = this.sampling[key] === undefined ? '' : String(this.sampling[key])
+    })
+    const systemPrompt = this.shadowRoot.querySelector('#system-prompt') as HTMLTextAreaElement
+    systemPrompt.value = this.session.systemPrompt ?? ''
+    const contextPolicy = this.shadowRoot.querySelector('#context-policy') as HTMLSelectElement
+    contextPolicy.value = this.session.contextPolicy ?? DEFAULT_CONTEXT_POLICY
+  }
+
+  // What the next request would send: system prompt, history and the draft being typed
+  private pendingMessages(draft = ''): ChatMessage[] {
+    const system = this.session.systemPrompt?.trim()
+    const messages: ChatMessage[] = system ? [{ role: 'system', content: system }, ...this.session.messages] : [...this.session.messages]
+    if (draft.trim()) messages.push({ role: 'user', content: draft.trim() })
+    return messages
+  }
+
+  private setTokenCounter(text: string, over = false) {
+    const el = this.shadowRoot?.querySelector('#token-counter') as HTMLDivElement | null
+    if (!el) return
+    el.textContent = text
+    el.classList.toggle('over', over)
+  }
+
+  // Counting tokenizes the whole conversation in the engine, so wait for typing to pause
+  private scheduleTokenCount() {
+    clearTimeout(this.tokenCountTimer)
+    this.tokenCountTimer = setTimeout(() => this.updateTokenCount(), 300)
+  }
+
+  private async updateTokenCount() {
+    const input = this.shadowRoot?.querySelector('#input') as HTMLTextAreaElement | null
+    const messages = this.pendingMessages(input?.value)
+    if (!this.currentModelId || !this.modelLoaded || messages.length === 0) {
+      this.setTokenCounter('')
       return
     }
-    if (msg?.type === 'error') {
-      console.error('Worker error:', msg?.payload)
-      this.updateModelStatus('Error')
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'count-tokens', messages, modelId: this.currentModelId })
+      if (!response?.success) return
+      const { promptTokens, contextLength } = response.data as { promptTokens: number; contextLength: number }
+      const maxTokens = this.sampling.maxTokens ?? DEFAULT_SAMPLING_OPTIONS.maxTokens
+      const over = promptTokens + maxTokens > contextLength
+      const policy = this.session.contextPolicy ?? DEFAULT_CONTEXT_POLICY
+      const note = !over ? '' : policy === 'summarize' ? ' · older turns will be summarised' : ' · older messages will be left out'
+      this.setTokenCounter(`${promptTokens} / ${contextLength} tokens${note}`, over)
+    } catch (e) {
+      console.error('Failed to count tokens:', e)
     }
   }
 
+  private appendMessage(message: ChatMessage) {
+    const messages = this.shadowRoot!.querySelector('#messages') as HTMLDivElement
+    const div = document.createElement('div')
+    div.textContent = `${message.role === 'user' ? 'You' : 'Assistant'}: ${message.content}`
+    messages.appendChild(div)
+  }
+
+  private renderMessages() {
+    const messages = this.shadowRoot?.querySelector('#messages') as HTMLDivElement | null
+    if (!messages) return
+    messages.innerHTML = ''
+    this.session.messages.forEach(message => this.appendMessage(message))
+    messages.lastElementChild?.scrollIntoView({ block: 'end' })
+  }
+
+  private createAssistantElement(id: string): HTMLDivElement {
+    const messages = this.shadowRoot!.querySelector('#messages') as HTMLDivElement
+    const el = document.createElement('div')
+    messages.appendChild(el)
+    this.streaming = { id, el }
+    return el
+  }
+
   private handleSend() {
     if (!this.shadowRoot) return
     const input = this.shadowRoot.querySelector('#input') as HTMLTextAreaElement
     const send = this.shadowRoot.querySelector('#send') as HTMLButtonElement
     const text = input.value.trim()
-    if (!text || !this.worker || !this.modelLoaded) return
-    const messages = this.shadowRoot.querySelector('#messages') as HTMLDivElement
-    const div = document.createElement('div')
-    div.textContent = `You: ${text}`
-    messages.appendChild(div)
+    if (!text || !this.currentModelId || !this.modelLoaded) return
+    const message: ChatMessage = { role: 'user', content: text }
+    this.appendMessage(message)
     input.value = ''
     send.disabled = true
-    this.worker.postMessage({ type: 'inference', payload: { input: text } })
+    this.session.messages.push(message)
+    this.generate()
+  }
+
+  private setGenerating(generating: boolean) {
+    const send = this.shadowRoot?.querySelector('#send') as HTMLButtonElement | null
+    const stop = this.shadowRoot?.querySelector('#stop') as HTMLButtonElement | null
+    if (send) send.hidden = generating
+    if (stop) {
+      stop.hidden = !generating
+      stop.disabled = false
+    }
+  }
+
+  // The service worker answers the pending generate-response with whatever was generated so far
+  private async stopGeneration() {
+    const requestId = this.streaming?.id
+    if (!requestId) return
+    const stop = this.shadowRoot?.querySelector('#stop') as HTMLButtonElement | null
+    if (stop) stop.disabled = true
+    try {
+      await chrome.runtime.sendMessage({ type: 'cancel-generation', requestId })
+    } catch (e) {
+      console.error('Failed to stop generation:', e)
+    }
+  }
+
+  private async generate() {
+    const requestId = `chat_${Date.now()}`
+    const session = this.session
+    const el = this.createAssistantElement(requestId)
+    this.setGenerating(true)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'generate-response',
+        messages: this.pendingMessages(),
+        modelId: this.currentModelId,
+        options: { ...this.sampling, contextPolicy: session.contextPolicy ?? DEFAULT_CONTEXT_POLICY },
+        requestId
+      })
+      if (response?.code === 'cancelled') {
+        // Stopped before it left the queue, so the turn is dropped along with its bubble
+        session.messages.pop()
+        if (session === this.session) this.renderMessages()
+        return
+      }
+      if (!response?.success) throw new Error(response?.error || 'Generation failed')
+      const stopped = response.data.finishReason === 'cancelled'
+      el.textContent = `Assistant: ${response.data.text}${stopped ? ' (stopped)' : ''}`
+      session.messages.push({ role: 'assistant', content: response.data.text })
+      await this.persistSession()
+      const context = response.data.context
+      if (context) {
+        const dropped = context.droppedMessages > 0
+          ? ` · ${context.droppedMessages} earlier message${context.droppedMessages === 1 ? ' was' : 's were'} ${context.summarized ? 'summarised' : 'left out'}`
+          : ''
+        this.setTokenCounter(`${context.contextLength - context.remainingTokens} / ${context.contextLength} tokens${dropped}`, dropped !== '')
+      }
+    } catch (e) {
+      console.error('Generation error:', e)
+      // Keep user and assistant turns alternating, which most chat templates require
+      session.messages.pop()
+      el.textContent = `Error: ${e instanceof Error ? e.message : e}`
+      this.updateModelStatus('Error')
+    } finally {
+      if (this.streaming?.id === requestId) this.streaming = null
+      this.setGenerating(false)
+    }
   }
 }
 
@@ -6,6 +6,8 @@ import './help-view'
 import './chat-view'
 import './sliding-pane'
 import { ThemeManager } from '../../core/utils/theme-manager'
+import { describePermission, isMaxTokensPermission, normalizePermissions } from '../../core/utils/permissions'
+import { escapeHtml } from '../../core/utils/html'
 
 export class LLMControlPanel extends HTMLElement {
   private currentView: 'apps' | 'activity' | 'chat' = 'apps'
@@ -149,14 +151,19 @@ export class LLMControlPanel extends HTMLElement {
       <div class="approval-request">
         <h3>App Access Request</h3>
         <div class="app-info">
-          <p><strong>App Name:</strong> ${appInfo.name}</p>
-          <p><strong>Origin:</strong> ${appInfo.origin}</p>
-          <p><strong>Description:</strong> ${appInfo.description || 'No description provided'}</p>
+          <p><strong>App Name:</strong> ${escapeHtml(appInfo.name)}</p>
+          <p><strong>Origin:</strong> ${escapeHtml(appInfo.origin)}</p>
+          <p><strong>Description:</strong> ${escapeHtml(appInfo.description || 'No description provided')}</p>
           <p><strong>Requested Permissions:</strong></p>
-          <ul>
-            ${appInfo.requestedPermissions.map((perm: string) => `<li>${perm}</li>`).join('')}
+          <ul class="permission-list">
+            ${normalizePermissions(appInfo.requestedPermissions).map(perm => isMaxTokensPermission(perm)
+              // Limits protect the user, so they are always applied
+              ? `<li>${escapeHtml(describePermission(perm))}</li>`
+              : `<li><label><input type="checkbox" class="permission-toggle" value="${escapeHtml(perm)}" checked> ${escapeHtml(describePermission(perm))}</label></li>`
+            ).join('')}
           </ul>
         </div>
+        <div class="approval-error" id="approval-error"></div>
         <div class="approval-actions">
           <button id="approve-btn" class="btn btn-primary">Approve</button>
           <button id="reject-btn" class="btn btn-secondary">Reject</button>
@@ -175,6 +182,17 @@ export class LLMControlPanel extends HTMLElement {
         .dark .app-info {
           background: #333;
         }
+        .permission-list {
+          list-style: none;
+          padding-left: 0;
+        }
+        .permission-list li {
+          margin: 4px 0;
+        }
+        .approval-error {
+          color: #dc3545;
+          font-size: 13px;
+        }
         .approval-actions {
           display: flex;
           gap: 8px;
@@ -231,15 +249,26 @@ export class LLMControlPanel extends HTMLElement {
     }
   }
   
-  private handleApprovalResponse(approved: boolean) {
+  private async handleApprovalResponse(approved: boolean) {
     if (!this.currentApprovalRequest) return
-    
-    chrome.runtime.sendMessage({
+
+    // Only the ticked permissions are granted
+    const grantedPermissions = Array.from(
+      this.shadowRoot?.querySelectorAll<HTMLInputElement>('.permission-toggle:checked') || []
+    ).map(input => input.value)
+
+    const response = await chrome.runtime.sendMessage({
       type: 'approvalResponse',
       requestId: this.currentApprovalRequest.requestId,
       approved: approved,
+      grantedPermissions,
       appInfo: this.currentApprovalRequest.appInfo
     })
+    if (response && !response.success) {
+      const errorEl = this.shadowRoot?.querySelector('#approval-error')
+      if (errorEl) errorEl.textContent = response.error || 'Failed to process approval'
+      return
+    }
     
     // Clear current request and close pane
     this.currentApprovalRequest = null
@@ -1,14 +1,23 @@
+import { escapeHtml } from '../../core/utils/html'
+
 export class ModelItem extends HTMLElement {
   static get observedAttributes() {
-    return ['model-id', 'downloaded', 'selected', 'open']
+    return ['model-id', 'downloaded', 'selected', 'open', 'partial-bytes', 'download-state', 'download-error']
   }
 
   private _modelId: string = ''
   private _downloaded: boolean = false
   private _selected: boolean = false
   private _open: boolean = false
+  // Bytes kept from an interrupted download, resumed by the download action
+  private _partialBytes: number = 0
+  // Entry in the service worker's download queue, if any
+  private _downloadState: 'queued' | 'downloading' | 'paused' | '' = ''
+  private _downloadError: string = ''
   private _downloading: boolean = false
   private _progressText: string = ''
+  // Set while the stored files are re-hashed; the view re-renders the list when the check ends
+  private _verifying: boolean = false
   private _metainfo: {
     pipelineType?: string
     lastModified?: string
@@ -43,6 +52,15 @@ export class ModelItem extends HTMLElement {
       case 'open':
         this._open = newVal === 'true'
         break
+      case 'partial-bytes':
+        this._partialBytes = Number(newVal) || 0
+        break
+      case 'download-state':
+        this.setDownloadState((newVal || '') as ModelItem['_downloadState'])
+        break
+      case 'download-error':
+        this._downloadError = newVal || ''
+        break
     }
     this.render()
     this.updateDetailsHeight()
@@ -73,10 +91,23 @@ export class ModelItem extends HTMLElement {
     }
   }
 
+  private setDownloadState(state: ModelItem['_downloadState']) {
+    this._downloadState = state
+    this._downloading = state === 'downloading'
+    if (!this._downloading) this._progressText = ''
+    else if (!this._progressText) this._progressText = 'Starting...'
+  }
+
   private listenForProgress() {
     chrome.runtime.onMessage.addListener((message, _sender, _sendResponse) => {
       if (!this._modelId) return
-      if (message?.type === 'downloadProgress' && message.modelId === this._modelId) {
+      if (message?.type === 'downloadState') {
+        const entry = (message.downloads as { modelId: string; state: ModelItem['_downloadState']; error?: string }[] | undefined)
+          ?.find(d => d.modelId === this._modelId)
+        this.setDownloadState(entry?.state ?? '')
+        this._downloadError = entry?.error ?? ''
+        this.render()
+      } else if (message?.type === 'downloadProgress' && message.modelId === this._modelId) {
         const info = message.info
         this._downloading = true
         if (info?.type === 'download') {
@@ -95,6 +126,11 @@ export class ModelItem extends HTMLElement {
           this._progressText = info.msg || '...'
         }
         this.render()
+      } else if (message?.type === 'verifyProgress' && message.modelId === this._modelId) {
+        const pct = message.total ? Math.round((message.checked / message.total) * 100) : undefined
+        this._verifying = true
+        this._progressText = pct !== undefined ? `Verifying ${pct}%` : 'Verifying...'
+        this.render()
       } else if (message?.type === 'downloadComplete' && message.modelId === this._modelId) {
         this._downloading = false
         this._progressText = ''
@@ -126,6 +162,15 @@ export class ModelItem extends HTMLElement {
     const deleteBtn = root.querySelector('#delete-btn') as HTMLButtonElement | null
     const editBtn = root.querySelector('#edit-btn') as HTMLButtonElement | null
     const clearBtn = root.querySelector('#clear-btn') as HTMLButtonElement | null
+    const verifyBtn = root.querySelector('#verify-btn') as HTMLButtonElement | null
+
+    // Pause, resume and cancel act on the service worker's download queue
+    for (const action of ['pause', 'resume', 'cancel']) {
+      root.querySelector(`#${action}-btn`)?.addEventListener('click', (e) => {
+        e.stopPropagation()
+        this.dispatchEvent(new CustomEvent(action, { bubbles: true, composed: true, detail: { modelId: this._modelId } }))
+      })
+    }
 
     if (downloadBtn) {
       downloadBtn.addEventListener('click', (e) => {
@@ -136,6 +181,15 @@ export class ModelItem extends HTMLElement {
         this.dispatchEvent(new CustomEvent('download', { bubbles: true, composed: true, detail: { modelId: this._modelId } }))
       })
     }
+    if (verifyBtn) {
+      verifyBtn.addEventListener('click', (e) => {
+        e.stopPropagation()
+        this._verifying = true
+        this._progressText = 'Verifying...'
+        this.render()
+        this.dispatchEvent(new CustomEvent('verify', { bubbles: true, composed: true, detail: { modelId: this._modelId } }))
+      })
+    }
     if (clearBtn) {
       clearBtn.addEventListener('click', (e) => {
         e.stopPropagation()
@@ -166,6 +220,9 @@ export class ModelItem extends HTMLElement {
     if (!this.shadowRoot) return
     const downloaded = this._downloaded
     const selected = this._selected
+    const resumable = !downloaded && this._partialBytes > 0
+    const state = this._downloadState
+    const stored = `${Math.round(this._partialBytes / 1024 ** 2)} MB stored`
     const mi = this._metainfo || {}
     this.shadowRoot.innerHTML = `
       <style>
@@ -204,12 +261,31 @@ export class ModelItem extends HTMLElement {
           </div>
           <div class="spacer"></div>
           <div class="actions">
-            ${this._downloading ? `<span class=\"progress\">${this._progressText}</span><span class=\"spinner\" aria-hidden=\"true\"></span>` : ''}
-            ${!downloaded && !this._downloading ? `
-              <button class="icon-button" id="download-btn" title="Download" aria-label="Download">
+            ${this._downloading || this._verifying ? `<span class=\"progress\">${this._progressText}</span><span class=\"spinner\" aria-hidden=\"true\"></span>` : ''}
+            ${state === 'queued' ? '<span class="progress">Queued</span>' : ''}
+            ${state === 'paused' ? `<span class="progress" title="${escapeHtml(this._downloadError)}">${this._downloadError ? 'Failed' : 'Paused'}${resumable ? `, ${stored}` : ''}</span>` : ''}
+            ${resumable && !this._downloading && !state ? `<span class="progress">${stored}</span>` : ''}
+            ${state === 'downloading' ? `
+              <button class="icon-button" id="pause-btn" title="Pause download" aria-label="Pause download">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M9 5v14M15 5v14" stroke="currentColor" stroke-width="2" stroke-linecap="round"/></svg>
+              </button>` : ''}
+            ${state === 'paused' ? `
+              <button class="icon-button" id="resume-btn" title="Resume download" aria-label="Resume download">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M7 4l13 8-13 8V4z" stroke="currentColor" stroke-width="2" stroke-linejoin="round"/></svg>
+              </button>` : ''}
+            ${state ? `
+              <button class="icon-button" id="cancel-btn" title="Cancel download" aria-label="Cancel download">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M6 6l12 12M18 6L6 18" stroke="currentColor" stroke-width="2" stroke-linecap="round"/></svg>
+              </button>` : ''}
+            ${!downloaded && !this._downloading && !state ? `
+              <button class="icon-button" id="download-btn" title="${resumable ? 'Resume download' : 'Download'}" aria-label="${resumable ? 'Resume download' : 'Download'}">
                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12 3v12m0 0l-4-4m4 4l4-4" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/><path d="M5 21h14" stroke="currentColor" stroke-width="2" stroke-linecap="round"/></svg>
               </button>` : ''}
-            ${downloaded && !this._downloading ? `
+            ${downloaded && !this._downloading && !this._verifying && !state ? `
+              <button class="icon-button" id="verify-btn" title="Verify files" aria-label="Verify files">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12 3l7 3v5c0 4.5-3 8.5-7 10-4-1.5-7-5.5-7-10V6l7-3z" stroke="currentColor" stroke-width="2" stroke-linejoin="round"/><path d="M9 12l2 2 4-4" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>
+              </button>` : ''}
+            ${(downloaded || resumable) && !this._downloading && !this._verifying && !state ? `
               <button class="icon-button" id="clear-btn" title="Clear" aria-label="Clear">
                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M3 6h18M8 6V4h8v2M6 6l1 14h10l1-14" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>
               </button>` : ''}
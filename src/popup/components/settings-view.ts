@@ -1,11 +1,40 @@
 import { ThemeManager } from '../../core/utils/theme-manager'
+import type { WebNNDevice } from '../../core/utils/webnn-utils'
+import type { BenchmarkRun } from '../../core/utils/provider-benchmark'
+import { recommendQuantization, type QuantizationRecommendation } from '../../core/utils/model-variants'
+import { WEBNN_DEVICE_TYPES } from '../../core/providers/execution-providers'
+import type { StorageBackendKind } from '../../core/utils/chunk-storage'
+import { escapeHtml } from '../../core/utils/html'
+import {
+  DEFAULT_RUNTIME_SETTINGS,
+  GRAPH_OPTIMIZATION_LEVELS,
+  MAX_WASM_THREADS,
+  type RuntimeOptions,
+  type RuntimeSettings
+} from '../../core/utils/runtime-settings'
 
 export class SettingsView extends HTMLElement {
   private currentTheme: 'light' | 'dark' = 'light'
   private themeManager = ThemeManager.getInstance()
   private availableProviders: string[] = []
+  // Probe results from the service worker's cache; empty until the first probe finishes
+  private webnnDevices: WebNNDevice[] = []
+  private probing = false
+  private downloadedModels: string[] = []
+  private benchmarkModel: string | null = null
+  private benchmark: BenchmarkRun | null = null
+  private benchmarking = false
+  private benchmarkError: string | null = null
+  private runtimeSettings: RuntimeSettings = { ...DEFAULT_RUNTIME_SETTINGS }
+  // The settings as the service worker resolved them for this machine
+  private runtime: RuntimeOptions | null = null
   private deviceMemoryGB: number | undefined = (navigator as any).deviceMemory
-  private quantRecommendation: { level: string; reason: string } | null = null
+  private storageBackend: StorageBackendKind = 'indexeddb'
+  private opfsAvailable = false
+  // Progress text while stored models move to another backend
+  private migration: string | null = null
+  private storageError: string | null = null
+  private quantRecommendation: QuantizationRecommendation | null = null
 
   constructor() {
     super()
@@ -225,6 +254,81 @@ export class SettingsView extends HTMLElement {
         }
 
         .row-actions { display:flex; gap:8px; }
+
+        .provider-select {
+          padding: 6px 8px;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          color: #333;
+        }
+
+        .dark .provider-select {
+          background: #2d2d2d;
+          border-color: #404040;
+          color: #e0e0e0;
+        }
+
+        .provider-order {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .provider-row {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .provider-row .provider-chip { flex: 1; }
+
+        .provider-row.unavailable .provider-chip { opacity: 0.5; }
+
+        .move-button {
+          padding: 4px 8px;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          color: #333;
+          cursor: pointer;
+        }
+
+        .dark .move-button {
+          background: #2d2d2d;
+          border-color: #404040;
+          color: #e0e0e0;
+        }
+
+        .move-button:disabled { opacity: 0.4; cursor: default; }
+
+        .runtime-field {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 12px;
+        }
+
+        .runtime-field input[type="number"] { width: 64px; }
+
+        .benchmark-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+          color: #333;
+        }
+
+        .dark .benchmark-table { color: #e0e0e0; }
+
+        .benchmark-table th,
+        .benchmark-table td {
+          text-align: left;
+          padding: 4px 6px;
+          border-bottom: 1px solid #e0e0e0;
+        }
+
+        .dark .benchmark-table th,
+        .dark .benchmark-table td { border-color: #404040; }
       </style>
       
       <div class="settings-container">
@@ -248,12 +352,120 @@ export class SettingsView extends HTMLElement {
               <span class="provider-chip">${p.toUpperCase()}</span>
             `).join('') : '<span class="subtext">Detecting providers...</span>'}
           </div>
+          <div class="subtext">WebNN devices</div>
+          <div class="provider-order">
+            ${this.webnnDevices.length > 0 ? this.webnnDevices.map(d => `
+              <div class="provider-row ${d.supported ? '' : 'unavailable'}">
+                <span class="provider-chip">${d.type.toUpperCase()}</span>
+                <span class="subtext">${d.supported
+                  ? `Supported, ${d.capabilities?.supportedOps.length ?? 0} probe ops${d.capabilities?.dataTypes.includes('float16') ? ', float16' : ''}`
+                  : `Not supported${d.capabilities?.error ? `: ${escapeHtml(d.capabilities.error)}` : ''}`}</span>
+              </div>
+            `).join('') : `<span class="subtext">${this.probing ? 'Probing devices...' : 'No WebNN probe results yet'}</span>`}
+          </div>
           <div class="row-actions">
             <button class="action-button secondary-button" id="refresh-providers">Refresh</button>
+            <button class="action-button secondary-button" id="probe-webnn" ${this.probing ? 'disabled' : ''}>Probe WebNN</button>
           </div>
           <div class="subtext">${this.deviceMemoryGB ? `${this.deviceMemoryGB} GB memory detected` : 'Memory info unavailable'}</div>
         </div>
 
+        <div class="settings-section">
+          <h3 class="section-title">Runtime</h3>
+          <div class="subtext">Provider order, most preferred first</div>
+          <div class="provider-order">
+            ${this.runtimeSettings.providerOrder.map((p, i, order) => `
+              <div class="provider-row ${p === 'wasm' || this.availableProviders.includes(p) ? '' : 'unavailable'}">
+                <span class="provider-chip">${p.toUpperCase()}${p === 'wasm' || this.availableProviders.includes(p) ? '' : ' (unavailable)'}</span>
+                <button class="move-button" data-provider="${p}" data-move="-1" title="Move up" ${i === 0 ? 'disabled' : ''}>↑</button>
+                <button class="move-button" data-provider="${p}" data-move="1" title="Move down" ${i === order.length - 1 ? 'disabled' : ''}>↓</button>
+              </div>
+            `).join('')}
+          </div>
+          ${this.runtime ? `
+            <div class="subtext">Tried in order: ${this.runtime.providers.map(p => p.toUpperCase()).join(' → ')}. Loaded models keep their provider until they are reloaded.</div>
+          ` : ''}
+          <label class="runtime-field subtext">
+            <span>Order by benchmark results${this.benchmark ? '' : ' (run a benchmark first)'}</span>
+            <input type="checkbox" id="rank-by-benchmark" ${this.runtimeSettings.rankByBenchmark ? 'checked' : ''}>
+          </label>
+          <div class="runtime-field">
+            <label class="subtext" for="webnn-device">WebNN device</label>
+            <select class="provider-select" id="webnn-device">
+              <option value="auto" ${this.runtimeSettings.webnnDeviceType === 'auto' ? 'selected' : ''}>Automatic${this.runtimeSettings.webnnDeviceType === 'auto' && this.runtime?.webnnDeviceType ? ` (${this.runtime.webnnDeviceType.toUpperCase()})` : ''}</option>
+              ${WEBNN_DEVICE_TYPES.map(d => `
+                <option value="${d}" ${this.runtimeSettings.webnnDeviceType === d ? 'selected' : ''}>${d.toUpperCase()}${this.webnnDevices.some(device => device.type === d && !device.supported) ? ' (not supported)' : ''}</option>
+              `).join('')}
+            </select>
+          </div>
+          <div class="runtime-field">
+            <label class="subtext" for="graph-optimization">Graph optimization</label>
+            <select class="provider-select" id="graph-optimization">
+              ${GRAPH_OPTIMIZATION_LEVELS.map(level => `
+                <option value="${level}" ${this.runtimeSettings.graphOptimizationLevel === level ? 'selected' : ''}>${level}</option>
+              `).join('')}
+            </select>
+          </div>
+          <div class="runtime-field">
+            <label class="subtext" for="wasm-threads">WASM threads (0 = one per core)</label>
+            <input class="provider-select" id="wasm-threads" type="number" min="0" max="${MAX_WASM_THREADS}" step="1" value="${this.runtimeSettings.wasmThreads}">
+          </div>
+          <label class="runtime-field subtext">
+            <span>WASM SIMD</span>
+            <input type="checkbox" id="wasm-simd" ${this.runtimeSettings.wasmSimd ? 'checked' : ''}>
+          </label>
+          <label class="runtime-field subtext">
+            <span>WASM proxy worker (rules out WebGPU and WebNN)</span>
+            <input type="checkbox" id="wasm-proxy" ${this.runtimeSettings.wasmProxy ? 'checked' : ''}>
+          </label>
+          <div class="subtext">WASM changes take effect the next time the inference engine starts, e.g. after reloading the extension.</div>
+        </div>
+
+        <div class="settings-section">
+          <h3 class="section-title">Benchmark</h3>
+          <div class="subtext">Runs a short generation with a downloaded model on every available provider.</div>
+          <div class="row-actions" style="align-items:center;">
+            <select class="provider-select" id="benchmark-model" ${this.downloadedModels.length === 0 ? 'disabled' : ''}>
+              ${this.downloadedModels.length > 0
+                ? this.downloadedModels.map(m => `<option value="${m}" ${m === this.benchmarkModel ? 'selected' : ''}>${m}</option>`).join('')
+                : '<option>No downloaded models</option>'}
+            </select>
+            <button class="action-button secondary-button" id="run-benchmark" ${this.benchmarking || this.downloadedModels.length === 0 ? 'disabled' : ''}>${this.benchmarking ? 'Running...' : 'Benchmark'}</button>
+          </div>
+          ${this.benchmarkError ? `<div class="subtext">${escapeHtml(this.benchmarkError)}</div>` : ''}
+          ${this.benchmark ? `
+            <table class="benchmark-table">
+              <tr><th>Provider</th><th>Session</th><th>First token</th><th>Speed</th></tr>
+              ${this.benchmark.results.map(r => r.error ? `
+                <tr><td>${r.provider.toUpperCase()}</td><td colspan="3" title="${escapeHtml(r.error)}">Failed</td></tr>
+              ` : `
+                <tr>
+                  <td>${r.provider.toUpperCase()}</td>
+                  <td>${r.sessionMs ?? '–'} ms</td>
+                  <td>${r.ttftMs ?? '–'} ms</td>
+                  <td>${r.tokensPerSecond !== undefined ? r.tokensPerSecond.toFixed(1) : '–'} tok/s</td>
+                </tr>
+              `).join('')}
+            </table>
+            <div class="subtext">${escapeHtml(this.benchmark.modelId)}, ${new Date(this.benchmark.runAt).toLocaleString()}</div>
+          ` : ''}
+        </div>
+
+        <div class="settings-section">
+          <h3 class="section-title">Storage</h3>
+          <div class="runtime-field">
+            <label class="subtext" for="storage-backend">Model files</label>
+            <select class="provider-select" id="storage-backend" ${this.migration ? 'disabled' : ''}>
+              <option value="indexeddb" ${this.storageBackend === 'indexeddb' ? 'selected' : ''}>IndexedDB</option>
+              <option value="opfs" ${this.storageBackend === 'opfs' ? 'selected' : ''} ${this.opfsAvailable ? '' : 'disabled'}>Origin Private File System${this.opfsAvailable ? '' : ' (unavailable)'}</option>
+            </select>
+          </div>
+          <div class="subtext">${this.migration
+            ? escapeHtml(this.migration)
+            : 'OPFS suits multi-GB models better. Switching moves the downloaded models; downloads must be paused or finished first.'}</div>
+          ${this.storageError ? `<div class="subtext">${escapeHtml(this.storageError)}</div>` : ''}
+        </div>
+
         <div class="settings-section">
           <h3 class="section-title">Recommended Quantization</h3>
           ${this.quantRecommendation ? `
@@ -261,6 +473,7 @@ export class SettingsView extends HTMLElement {
               <span class="quant-badge">${this.quantRecommendation.level}</span>
             </div>
             <div class="subtext" style="margin-top:6px;">${this.quantRecommendation.reason}</div>
+            <div class="subtext" style="margin-top:6px;">Add Model preselects the closest variant a repo exports; switch variants from a model's Edit form.</div>
           ` : '<span class="subtext">Calculating recommendation...</span>'}
         </div>
       </div>
@@ -283,6 +496,127 @@ export class SettingsView extends HTMLElement {
     this.shadowRoot.getElementById('refresh-providers')?.addEventListener('click', async () => {
       await this.fetchSystemStatus()
     })
+
+    this.shadowRoot.getElementById('probe-webnn')?.addEventListener('click', async () => {
+      this.probing = true
+      this.render()
+      try {
+        const response = await chrome.runtime.sendMessage({ type: 'probeWebNN' })
+        if (!response?.success) console.error('WebNN probe failed:', response?.error)
+      } catch (e) {
+        console.error('WebNN probe failed:', e)
+      }
+      this.probing = false
+      this.render()
+      await this.fetchSystemStatus()
+    })
+
+    this.shadowRoot.querySelectorAll<HTMLButtonElement>('.move-button').forEach(button => {
+      button.addEventListener('click', () => {
+        const order = [...this.runtimeSettings.providerOrder]
+        const from = order.indexOf(button.dataset.provider as RuntimeSettings['providerOrder'][number])
+        const to = from + Number(button.dataset.move)
+        if (from === -1 || to < 0 || to >= order.length) return
+        order.splice(to, 0, ...order.splice(from, 1))
+        this.saveRuntimeSettings({ providerOrder: order })
+      })
+    })
+
+    this.shadowRoot.getElementById('rank-by-benchmark')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ rankByBenchmark: (e.target as HTMLInputElement).checked })
+    })
+
+    this.shadowRoot.getElementById('benchmark-model')?.addEventListener('change', (e) => {
+      this.benchmarkModel = (e.target as HTMLSelectElement).value
+    })
+
+    this.shadowRoot.getElementById('run-benchmark')?.addEventListener('click', () => this.runBenchmark())
+
+    this.shadowRoot.getElementById('storage-backend')?.addEventListener('change', (e) => {
+      this.saveStorageBackend((e.target as HTMLSelectElement).value as StorageBackendKind)
+    })
+
+    this.shadowRoot.getElementById('webnn-device')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ webnnDeviceType: (e.target as HTMLSelectElement).value as RuntimeSettings['webnnDeviceType'] })
+    })
+
+    this.shadowRoot.getElementById('graph-optimization')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ graphOptimizationLevel: (e.target as HTMLSelectElement).value as RuntimeSettings['graphOptimizationLevel'] })
+    })
+
+    this.shadowRoot.getElementById('wasm-threads')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ wasmThreads: Number((e.target as HTMLInputElement).value) })
+    })
+
+    this.shadowRoot.getElementById('wasm-simd')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ wasmSimd: (e.target as HTMLInputElement).checked })
+    })
+
+    this.shadowRoot.getElementById('wasm-proxy')?.addEventListener('change', (e) => {
+      this.saveRuntimeSettings({ wasmProxy: (e.target as HTMLInputElement).checked })
+    })
+  }
+
+  private async runBenchmark() {
+    if (!this.benchmarkModel) return
+    this.benchmarking = true
+    this.benchmarkError = null
+    this.render()
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'benchmarkProviders', modelId: this.benchmarkModel })
+      if (response?.success) {
+        this.benchmark = response.data.benchmark
+        this.runtime = response.data.runtime
+      } else {
+        this.benchmarkError = response?.error || 'Benchmark failed'
+      }
+    } catch (e) {
+      this.benchmarkError = e instanceof Error ? e.message : 'Benchmark failed'
+    }
+    this.benchmarking = false
+    this.render()
+  }
+
+  // The service worker normalises and stores the settings; the view shows what it kept
+  private async saveRuntimeSettings(changes: Partial<RuntimeSettings>) {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'setRuntimeSettings', settings: changes })
+      if (response?.success) {
+        this.runtimeSettings = response.data.runtimeSettings
+        this.runtime = response.data.runtime
+      } else {
+        console.error('Failed to save runtime settings:', response?.error)
+      }
+    } catch (e) {
+      console.error('Failed to save runtime settings:', e)
+    }
+    this.render()
+  }
+
+  // Waits for the stored models to move, which takes a while for large models
+  private async saveStorageBackend(backend: StorageBackendKind) {
+    this.migration = 'Moving stored models...'
+    this.storageError = null
+    this.render()
+    const onProgress = (message: any) => {
+      if (message?.type !== 'storageMigration') return
+      this.migration = `Moved ${message.moved} of ${message.total} files (${message.modelId})`
+      this.render()
+    }
+    chrome.runtime.onMessage.addListener(onProgress)
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'setStorageBackend', backend })
+      if (response?.success) {
+        this.storageBackend = response.data.storageBackend
+      } else {
+        this.storageError = response?.error || 'Failed to change the storage backend'
+      }
+    } catch (e) {
+      this.storageError = e instanceof Error ? e.message : 'Failed to change the storage backend'
+    }
+    chrome.runtime.onMessage.removeListener(onProgress)
+    this.migration = null
+    await this.fetchSystemStatus()
   }
 
   // legacy no-ops removed
@@ -291,40 +625,37 @@ export class SettingsView extends HTMLElement {
     try {
       const response = await chrome.runtime.sendMessage({ type: 'status' })
       if (response && response.success && response.data) {
-        const data = response.data as { availableProviders: string[] }
+        const data = response.data as {
+          availableProviders: string[]
+          webnnDevices?: WebNNDevice[]
+          runtimeSettings?: RuntimeSettings
+          runtime?: RuntimeOptions
+          benchmark?: BenchmarkRun | null
+          downloadedModels?: string[]
+          currentSelectedModel?: string | null
+          storageBackend?: StorageBackendKind
+          opfsAvailable?: boolean
+        }
         this.availableProviders = data.availableProviders || []
-        this.quantRecommendation = this.computeQuantizationRecommendation(this.availableProviders, this.deviceMemoryGB)
+        this.downloadedModels = data.downloadedModels || []
+        this.benchmark = data.benchmark ?? null
+        if (!this.benchmarkModel || !this.downloadedModels.includes(this.benchmarkModel)) {
+          this.benchmarkModel = data.currentSelectedModel && this.downloadedModels.includes(data.currentSelectedModel)
+            ? data.currentSelectedModel
+            : this.downloadedModels[0] ?? null
+        }
+        this.webnnDevices = data.webnnDevices || []
+        this.runtimeSettings = data.runtimeSettings ?? { ...DEFAULT_RUNTIME_SETTINGS }
+        this.runtime = data.runtime ?? null
+        this.storageBackend = data.storageBackend ?? 'indexeddb'
+        this.opfsAvailable = data.opfsAvailable === true
+        this.quantRecommendation = recommendQuantization(this.availableProviders, this.deviceMemoryGB)
         this.render()
       }
     } catch (e) {
       // ignore
     }
   }
-
-  private computeQuantizationRecommendation(providers: string[], deviceMemoryGB?: number): { level: string; reason: string } {
-    const mem = typeof deviceMemoryGB === 'number' ? deviceMemoryGB : undefined
-    const hasWebGPU = providers.includes('webgpu')
-    const hasWebNN = providers.includes('webnn')
-    const hasWASM = providers.includes('wasm') || providers.length === 0
-
-    if (hasWebGPU) {
-      if (mem && mem >= 16) return { level: 'fp16', reason: 'WebGPU + ample memory: best speed/quality balance' }
-      if (mem && mem >= 8) return { level: 'q4f16', reason: 'WebGPU + moderate memory: quantized weights with FP16 activations' }
-      return { level: 'q4', reason: 'WebGPU but low memory: prioritize smallest footprint' }
-    }
-
-    if (hasWebNN) {
-      if (mem && mem >= 8) return { level: 'q4f16', reason: 'WebNN device available: hybrid quantization recommended' }
-      return { level: 'q4', reason: 'WebNN with constrained memory: prefer 4-bit weights' }
-    }
-
-    if (hasWASM) {
-      if (mem && mem >= 8) return { level: 'q4f16', reason: 'WASM only: quantization helps; FP16 activations if memory allows' }
-      return { level: 'q4', reason: 'WASM only and limited memory: smallest weights recommended' }
-    }
-
-    return { level: 'q4', reason: 'Default recommendation when environment is unknown' }
-  }
 }
 
 customElements.define('settings-view', SettingsView)
\ No newline at end of file
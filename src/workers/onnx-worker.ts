@@ -4,12 +4,27 @@
  */
 
 // Import types and provider
-import type { ModelConfig } from '../core/utils/model.list';
+import type { ModelConfig, ModelGeometry } from '../core/utils/model.list';
+import type { ONNXSession } from '../core/providers/onnx-provider';
+import type { GenerationResult, TokenCallback } from '../core/providers/decode-loop';
+import type { ChatMessage, GenerationInput } from '../core/providers/chat-template';
+import type { GenerationOptions } from '../core/providers/context-window';
+import type { ExecutionProvider, ModelSource } from '../core/providers/execution-providers';
+import type { RuntimeOptions } from '../core/utils/runtime-settings';
+import type { StorageBackendKind } from '../core/utils/chunk-storage';
+import type { ProviderBenchmark } from '../core/utils/provider-benchmark';
 import type { InferenceSession } from 'onnxruntime-web/all';
 import type { PreTrainedTokenizer } from '@huggingface/transformers';
 
+// A model's stored files as object URLs, valid until `release` is called
+interface ModelFiles {
+  modelData: ModelSource;
+  externalData?: { path: string, data: string }[];
+  release: () => void;
+}
+
 interface WorkerMessage {
-  type: 'loadModel' | 'inference' | 'unloadModel' | 'status';
+  type: 'loadModel' | 'inference' | 'abort' | 'countTokens' | 'probeWebNN' | 'benchmark' | 'unloadModel' | 'status' | 'downloadModel' | 'migrateStorage';
   payload?: any;
   id?: string;
 }
@@ -20,20 +35,14 @@ interface WorkerResponse {
   id?: string;
 }
 
-interface ONNXSession {
-  session: InferenceSession;
-  modelId: string;
-  isLoaded: boolean;
-  provider: string;
-  inputNames: string[];
-  outputNames: string[];
-}
-
 // Worker-safe ONNX provider that doesn't access browser APIs
 class WorkerONNXProvider {
   private sessions: Map<string, ONNXSession> = new Map();
   private ort?: typeof import('onnxruntime-web/all');
   private tokenizers: Map<string, PreTrainedTokenizer> = new Map();
+  private geometries: Map<string, ModelGeometry> = new Map();
+  // Context window per model: `runtime.contextLength` from its config, or max_position_embeddings
+  private contextLengths: Map<string, number> = new Map();
   
   async initialize(): Promise<void> {
     if (!this.ort) {
@@ -43,14 +52,35 @@ class WorkerONNXProvider {
       if (this.ort && this.ort.env) {
         this.ort.env.wasm.numThreads = 4; // Default to 4 threads in worker
         this.ort.env.wasm.simd = true;
-        this.ort.env.wasm.proxy = true;
+        // Already off the main thread; the proxy worker would also rule out WebGPU and WebNN
+        this.ort.env.wasm.proxy = false;
       }
     }
   }
+
+  // The WASM flags only take effect before the first session; later changes wait for the next engine start
+  private async applyRuntimeOptions(runtime: RuntimeOptions): Promise<void> {
+    if (!this.ort || this.sessions.size > 0) return;
+    const { applyWasmSettings } = await import('../core/utils/runtime-settings');
+    applyWasmSettings(this.ort.env, runtime);
+    if (runtime.wasmProxy) {
+      console.warn('WASM proxy is on: WebGPU and WebNN sessions are not available through the proxy worker');
+    }
+  }
   
-  async loadModel(modelId: string, config: ModelConfig): Promise<boolean> {
+  /**
+   * @param runtime Settings resolved by the service worker; providers this worker cannot use are skipped
+   */
+  async loadModel(
+    modelId: string,
+    config: ModelConfig,
+    runtime?: RuntimeOptions
+  ): Promise<boolean> {
     try {
       await this.initialize();
+      if (runtime) {
+        await this.applyRuntimeOptions(runtime);
+      }
       
       if (!this.ort) {
         throw new Error('ONNX runtime not initialized');
@@ -65,25 +95,29 @@ class WorkerONNXProvider {
       console.log(`Loading model: ${modelId}`);
       
       // Load model data from storage
-      const { loadOrFetchModel } = await import('../core/utils/fetchchunkstore');
-      const { loadModelConfig } = await import('../core/utils/model.list');
-
-      let modelData: ArrayBuffer;
+      let files: ModelFiles;
       try {
-        console.log(`Loading model data for ${modelId} from storage...`);
-        modelData = await loadOrFetchModel(
-          `${config.urlBase}/${config.modelId}/${config.repoBase}/${config.onnxDir}/${config.modelFileName}`,
-          config.modelId,
-          (progress) => {
-            console.log(`Model loading progress:`, progress);
-          }
-        );
-        console.log(`Model data loaded successfully. Size: ${modelData.byteLength} bytes`);
+        files = await this.loadModelFiles(config);
       } catch (error) {
         console.error(`Failed to load model data for ${modelId}:`, error);
         return false;
       }
-      
+      try {
+        return await this.createModelSession(modelId, config, files, runtime);
+      } finally {
+        files.release();
+      }
+    } catch (error) {
+      console.error(`Failed to load model ${modelId}:`, error);
+      return false;
+    }
+  }
+
+  // Config, tokenizer and session for a model whose files are loaded
+  private async createModelSession(modelId: string, config: ModelConfig, files: ModelFiles, runtime?: RuntimeOptions): Promise<boolean> {
+    const { loadModelConfig, resolveModelGeometry } = await import('../core/utils/model.list');
+    const { modelData, externalData } = files;
+    try {
       // Load config data
       let configData: any;
       try {
@@ -98,9 +132,16 @@ class WorkerONNXProvider {
         return false;
       }
       
-      // Store config data for inference (basic implementation)
-      // Note: Advanced features like EOS token handling, KV cache dimensions
-      // can be added here when implementing more sophisticated generation
+      // Keep the attention geometry around for building the KV cache during generation
+      try {
+        const geometry = resolveModelGeometry(configData);
+        const { resolveContextLength } = await import('../core/providers/context-window');
+        this.geometries.set(modelId, geometry);
+        this.contextLengths.set(modelId, resolveContextLength(config.runtime?.contextLength ?? geometry.maxPositionEmbeddings));
+      } catch (error) {
+        console.error(`Model ${modelId} config data is not usable for generation:`, error);
+        return false;
+      }
       
       // Load tokenizer in worker context
       try {
@@ -117,6 +158,10 @@ class WorkerONNXProvider {
            revision: 'main'
          });
         
+        // A template in the model's runtime profile replaces the repo's, e.g. for repos that ship none
+        if (config.runtime?.chatTemplate) {
+          tokenizer.chat_template = config.runtime.chatTemplate;
+        }
         this.tokenizers.set(modelId, tokenizer);
         console.log(`Tokenizer loaded successfully for ${modelId}`);
       } catch (error) {
@@ -124,53 +169,17 @@ class WorkerONNXProvider {
         return false;
       }
       
-      // Load external data if exists
-      let externalData: { path: string, data: ArrayBuffer }[] | undefined;
-      if (config.modelExDataFileName) {
-        try {
-          console.log(`Loading external data for ${modelId}: ${config.modelExDataFileName}`);
-          // const { loadData } = await import('../core/utils/fetchchunkstore');
-          const externalDataBuffer = await loadOrFetchModel('', `${config.modelId}_external`, console.info);
-          console.log(`External data loaded:`, externalDataBuffer ? `${externalDataBuffer.byteLength} bytes` : 'null');
-          if (externalDataBuffer) {
-            externalData = [{ path: `./${config.modelExDataFileName}`, data: externalDataBuffer }];
-            console.log(`External data prepared for ONNX session:`, externalData);
-            console.log(`External data array length:`, externalData.length);
-            console.log(`External data first item:`, externalData[0]);
-          } else {
-            console.warn(`External data buffer is null/undefined for ${modelId}`);
-          }
-        } catch (error) {
-          console.warn(`Failed to load external data for ${modelId}:`, error);
-        }
-      } else {
-        console.log(`No external data file specified for ${modelId}`);
-      }
-      
-      console.log(`External data variable before session options:`, externalData);
-      
       // Create ONNX session
-      const sessionOptions: any = {
-        executionProviders: ['wasm'],
-        graphOptimizationLevel: 'all',
-        enableCpuMemArena: true,
-        enableMemPattern: true,
-        executionMode: 'sequential'
-      };
-      
-      // Only add externalData if it exists
-      if (externalData && externalData.length > 0) {
-        sessionOptions.externalData = externalData;
-        console.log(`Added external data to session options:`, sessionOptions.externalData);
-      } else {
-        console.log(`No external data to add to session options`);
-      }
+      const sessionOptions = this.buildSessionOptions(runtime, externalData);
       
-      console.log(`Creating ONNX session for ${modelId} with options:`, sessionOptions);
-      console.log(`Model data type: ${modelData.constructor.name}, size: ${modelData.byteLength}`);
+      const available: string[] = this.getAvailableProviders();
+      const order = (runtime?.providers ?? ['wasm']).filter(provider => available.includes(provider));
+      console.log(`Creating ONNX session for ${modelId} with options:`, sessionOptions, 'providers:', order);
+      console.log(`Model data: ${typeof modelData === 'string' ? modelData : `${modelData.byteLength} bytes`}`);
       
-      const session = await this.ort.InferenceSession.create(modelData, sessionOptions);
-      console.log(`ONNX session created successfully for ${modelId}`);
+      const { createSessionWithFallback } = await import('../core/providers/execution-providers');
+      const { session, provider } = await createSessionWithFallback(this.ort!, modelData, sessionOptions, order, runtime?.webnnDeviceType);
+      console.log(`ONNX session created successfully for ${modelId} on ${provider}`);
       console.log(`Input names: ${session.inputNames.join(', ')}`);
       console.log(`Output names: ${session.outputNames.join(', ')}`);
       
@@ -179,9 +188,11 @@ class WorkerONNXProvider {
         session,
         modelId,
         isLoaded: true,
-        provider: 'wasm',
+        provider,
         inputNames: [...session.inputNames],
-        outputNames: [...session.outputNames]
+        outputNames: [...session.outputNames],
+        // Half precision exports expect a float16 KV cache
+        kvType: /fp16|q4f16/.test(config.modelFileName) ? 'float16' : 'float32'
       };
       
       // Log input shapes for debugging
@@ -211,11 +222,193 @@ class WorkerONNXProvider {
     }
   }
   
-  async generateResponse(modelId: string, message: string, _options?: {
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-  }): Promise<string> {
+  /**
+   * The model file and its external data from storage, as object URLs of Blobs built from the stored
+   * chunks. ORT fetches a URL straight into its own buffer, even past the 2 GB ArrayBuffer limit,
+   * so the files are never assembled here first
+   */
+  private async loadModelFiles(config: ModelConfig): Promise<ModelFiles> {
+    const { loadOrFetchModelBlob } = await import('../core/utils/fetchchunkstore');
+    console.log(`Loading model data for ${config.modelId} from storage...`);
+    const modelBlob = await loadOrFetchModelBlob(
+      `${config.urlBase}/${config.modelId}/${config.repoBase}/${config.onnxDir}/${config.modelFileName}`,
+      config.modelId,
+      (progress) => {
+        console.log(`Model loading progress:`, progress);
+      }
+    );
+    console.log(`Model data loaded successfully. Size: ${modelBlob.size} bytes`);
+    const urls = [URL.createObjectURL(modelBlob)];
+    const release = () => urls.forEach(url => URL.revokeObjectURL(url));
+
+    if (!config.modelExDataFileName) {
+      console.log(`No external data file specified for ${config.modelId}`);
+      return { modelData: urls[0], release };
+    }
+    try {
+      console.log(`Loading external data for ${config.modelId}: ${config.modelExDataFileName}`);
+      const externalDataBlob = await loadOrFetchModelBlob('', `${config.modelId}_external`, console.info);
+      console.log(`External data loaded: ${externalDataBlob.size} bytes`);
+      urls.push(URL.createObjectURL(externalDataBlob));
+      return { modelData: urls[0], externalData: [{ path: `./${config.modelExDataFileName}`, data: urls[1] }], release };
+    } catch (error) {
+      console.warn(`Failed to load external data for ${config.modelId}:`, error);
+    }
+    return { modelData: urls[0], release };
+  }
+
+  private buildSessionOptions(runtime: RuntimeOptions | undefined, externalData?: ModelFiles['externalData']): any {
+    const sessionOptions: any = {
+      graphOptimizationLevel: runtime?.graphOptimizationLevel ?? 'all',
+      enableCpuMemArena: runtime?.enableCpuMemArena ?? true,
+      enableMemPattern: runtime?.enableMemPattern ?? true,
+      executionMode: runtime?.executionMode ?? 'sequential'
+    };
+    // Only add externalData if it exists
+    if (externalData && externalData.length > 0) {
+      sessionOptions.externalData = externalData;
+    }
+    return sessionOptions;
+  }
+
+  /**
+   * Time the loaded model on each provider this worker has: a fresh session per provider and a short
+   * greedy generation on it. The model's own session is left alone
+   */
+  async benchmark(modelId: string, config: ModelConfig, runtime: RuntimeOptions, prompt: string, maxTokens: number): Promise<ProviderBenchmark[]> {
+    const { tokenizer, geometry, session: loaded, ort } = this.requireModel(modelId);
+    const { createProviderSession } = await import('../core/providers/execution-providers');
+    const { runDecodeLoop } = await import('../core/providers/decode-loop');
+    const { createSampler } = await import('../core/providers/sampler');
+    const { encodePrompt } = await import('../core/providers/chat-template');
+    const { summarizeTimings } = await import('../core/utils/provider-benchmark');
+
+    const files = await this.loadModelFiles(config);
+    const sessionOptions = this.buildSessionOptions(runtime, files.externalData);
+    const promptIds = encodePrompt(tokenizer, [{ role: 'user', content: prompt }]);
+    const results: ProviderBenchmark[] = [];
+
+    try {
+      for (const provider of this.getAvailableProviders()) {
+        let session: InferenceSession | undefined;
+        try {
+          const createStarted = performance.now();
+          session = await createProviderSession(ort, files.modelData, sessionOptions, provider, runtime.webnnDeviceType);
+          const sessionMs = performance.now() - createStarted;
+
+          const startedAt = performance.now();
+          let firstTokenAt: number | null = null;
+          const result = await runDecodeLoop({
+            ort,
+            session: { session, inputNames: [...session.inputNames], outputNames: [...session.outputNames] },
+            geometry,
+            kvType: loaded.kvType,
+            promptIds,
+            maxTokens,
+            sampleNext: createSampler({ greedy: true }),
+            onToken: () => {
+              firstTokenAt ??= performance.now();
+            }
+          });
+          results.push(summarizeTimings(provider, sessionMs, startedAt, firstTokenAt, performance.now(), result.tokenIds.length));
+        } catch (error) {
+          console.warn(`Benchmark failed on ${provider}:`, error);
+          results.push({ provider, error: error instanceof Error ? error.message : String(error) });
+        } finally {
+          await session?.release();
+        }
+      }
+    } finally {
+      files.release();
+    }
+
+    return results;
+  }
+  
+  async generateResponse(
+    modelId: string,
+    input: GenerationInput,
+    options?: GenerationOptions,
+    onToken?: TokenCallback,
+    signal?: AbortSignal
+  ): Promise<GenerationResult> {
+    const { session, tokenizer, geometry, contextLength, ort } = this.requireModel(modelId);
+
+    const { runDecodeLoop, createTextStreamer } = await import('../core/providers/decode-loop');
+    const { createSampler, normalizeSamplingOptions } = await import('../core/providers/sampler');
+    const { encodePrompt, describeInput } = await import('../core/providers/chat-template');
+    const { fitToContext } = await import('../core/providers/context-window');
+    console.log('Generating response for:', describeInput(input));
+
+    const sampling = normalizeSamplingOptions(options);
+    const fitted = await fitToContext({
+      input,
+      encode: (value) => encodePrompt(tokenizer, value),
+      contextLength,
+      maxTokens: sampling.maxTokens,
+      policy: options?.contextPolicy,
+      summarize: (messages) => this.summarize(modelId, messages, signal)
+    });
+    if (fitted.usage.droppedMessages > 0 || fitted.usage.droppedTokens > 0) {
+      console.log(`Prompt shortened to fit the context window:`, fitted.usage);
+    }
+
+    const result = await runDecodeLoop({
+      ort,
+      session,
+      geometry,
+      kvType: session.kvType,
+      promptIds: fitted.promptIds,
+      maxTokens: fitted.usage.maxTokens,
+      sampleNext: createSampler(sampling, fitted.promptIds),
+      onToken: onToken ? createTextStreamer(tokenizer, onToken) : undefined,
+      signal
+    });
+    
+    const text = tokenizer.decode(result.tokenIds, { skip_special_tokens: true });
+    console.log(`Generated ${result.tokenIds.length} tokens (finish reason: ${result.finishReason})`);
+    const remainingTokens = fitted.usage.contextLength - fitted.usage.promptTokens - result.tokenIds.length;
+    return {
+      text,
+      finishReason: result.finishReason,
+      tokenCount: result.tokenIds.length,
+      context: { ...fitted.usage, remainingTokens }
+    };
+  }
+
+  // Prompt size of `input` as it would be sent, before any context policy applies
+  async countTokens(modelId: string, input: GenerationInput): Promise<{ promptTokens: number; contextLength: number }> {
+    const { tokenizer, contextLength } = this.requireModel(modelId);
+    const { encodePrompt } = await import('../core/providers/chat-template');
+    return {
+      promptTokens: encodePrompt(tokenizer, input).length,
+      contextLength
+    };
+  }
+
+  // Short greedy summary of dropped turns, for the `summarize` context policy
+  private async summarize(modelId: string, messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    const { session, tokenizer, geometry, contextLength, ort } = this.requireModel(modelId);
+    const { runDecodeLoop } = await import('../core/providers/decode-loop');
+    const { createSampler } = await import('../core/providers/sampler');
+    const { encodePrompt } = await import('../core/providers/chat-template');
+    const { buildSummaryPrompt, SUMMARY_MAX_TOKENS } = await import('../core/providers/context-window');
+
+    const prompt = buildSummaryPrompt(messages, contextLength);
+    const result = await runDecodeLoop({
+      ort,
+      session,
+      geometry,
+      kvType: session.kvType,
+      promptIds: encodePrompt(tokenizer, prompt),
+      maxTokens: SUMMARY_MAX_TOKENS,
+      sampleNext: createSampler({ greedy: true }),
+      signal
+    });
+    return tokenizer.decode(result.tokenIds, { skip_special_tokens: true });
+  }
+
+  private requireModel(modelId: string) {
     const session = this.sessions.get(modelId);
     if (!session || !session.isLoaded) {
       throw new Error(`Model ${modelId} is not loaded`);
@@ -226,158 +419,60 @@ class WorkerONNXProvider {
       throw new Error(`Tokenizer for model ${modelId} is not loaded`);
     }
     
-    if (!this.ort) {
-      throw new Error('ONNX runtime not initialized');
+    const geometry = this.geometries.get(modelId);
+    const contextLength = this.contextLengths.get(modelId);
+    if (!geometry || !contextLength) {
+      throw new Error(`Config for model ${modelId} is not loaded`);
     }
     
-    try {
-      console.log('Generating response for:', message);
-      
-      // Encode the input message
-      const inputs = await tokenizer.encode(message);
-      console.log('Encoded inputs:', inputs);
-      
-      // Prepare input tensor
-      const inputIds = new BigInt64Array(inputs.map(id => BigInt(id)));
-      const feeds: Record<string, any> = {};
-      
-      // Set up all required inputs based on the model's expected input names
-      for (const inputName of session.inputNames) {
-        if (inputName === 'input_ids') {
-          feeds[inputName] = new this.ort.Tensor('int64', inputIds, [1, inputIds.length]);
-        } else if (inputName === 'attention_mask') {
-          // Create attention mask (all tokens are attended to)
-          const attentionMask = new BigInt64Array(inputIds.length).fill(BigInt(1));
-          feeds[inputName] = new this.ort.Tensor('int64', attentionMask, [1, attentionMask.length]);
-        } else if (inputName === 'position_ids') {
-          // Create position IDs (0, 1, 2, ...)
-          const positionIds = new BigInt64Array(inputIds.length);
-          for (let i = 0; i < inputIds.length; i++) {
-            positionIds[i] = BigInt(i);
-          }
-          feeds[inputName] = new this.ort.Tensor('int64', positionIds, [1, positionIds.length]);
-        } else if (inputName.startsWith('past_key_values.')) {
-          // For first inference, provide empty past_key_values tensors
-          // The model requires all inputs to be present with correct dimensions
-          const match = inputName.match(/past_key_values\.(\d+)\.(key|value)/);
-          if (match) {
-            // Create empty tensors for first inference (no previous tokens)
-            // Use more conservative dimensions that work across different model sizes
-            const batchSize = 1;
-            const numHeads = 4; // Conservative default - many small models use 4-8 heads
-            const seqLen = 0; // No previous tokens for first inference
-            const headDim = 64; // Conservative default - many models use 64-128
-            
-            // Create empty tensor with correct 4D shape
-            const emptyTensor = new Float32Array(0);
-            feeds[inputName] = new this.ort.Tensor('float32', emptyTensor, [batchSize, numHeads, seqLen, headDim]);
-            console.log(`Providing 4D empty tensor for ${inputName} with shape [${batchSize}, ${numHeads}, ${seqLen}, ${headDim}]`);
-          }
-        }
-      }
-      
-      if (Object.keys(feeds).length === 0) {
-        throw new Error('No valid inputs could be prepared for the model');
-      }
-      
-      // Run inference
-      console.log('Running inference with feeds:', Object.keys(feeds));
-      const results = await session.session.run(feeds);
-      console.log('Inference results:', Object.keys(results));
-      
-      // Get output tensor
-      const outputName = session.outputNames[0];
-      if (!outputName || !results[outputName]) {
-        throw new Error('No valid output found');
-      }
-      
-      const outputTensor = results[outputName];
-      console.log('Output tensor shape:', outputTensor.dims);
-      
-      // Process the logits to generate a proper response
-      const outputData = outputTensor.data as Float32Array;
-      console.log('Output data length:', outputData.length);
-      
-      // For text generation, we want to sample from the last token's logits
-      // The output shape is [batch_size, seq_len, vocab_size]
-      const seqLen = outputTensor.dims[1];
-      const vocabSize = outputTensor.dims[2];
-      
-      // Get the logits for the last token in the sequence
-      const lastTokenLogits = outputData.slice((seqLen - 1) * vocabSize, seqLen * vocabSize);
-      console.log('Last token logits length:', lastTokenLogits.length);
-      
-      // Apply temperature and top-k sampling for better text generation
-      const temperature = 0.7;
-      const topK = 50;
-      
-      // Apply temperature scaling
-      const scaledLogits = Array.from(lastTokenLogits).map(logit => logit / temperature);
-      
-      // Apply softmax to get probabilities
-      const maxLogit = Math.max(...scaledLogits);
-      const expLogits = scaledLogits.map(logit => Math.exp(logit - maxLogit));
-      const sumExpLogits = expLogits.reduce((sum, exp) => sum + exp, 0);
-      const probabilities = expLogits.map(exp => exp / sumExpLogits);
-      
-      // Top-k sampling
-      const topKIndices = probabilities
-        .map((prob, index) => ({ prob, index }))
-        .sort((a, b) => b.prob - a.prob)
-        .slice(0, topK);
-      
-      // Sample from top-k
-      const randomValue = Math.random();
-      let cumulativeProb = 0;
-      let selectedIndex = topKIndices[0].index;
-      
-      for (const { prob, index } of topKIndices) {
-        cumulativeProb += prob;
-        if (randomValue <= cumulativeProb) {
-          selectedIndex = index;
-          break;
-        }
-      }
-      
-      console.log('Selected token index:', selectedIndex);
-      
-      // Decode the selected token
-      const decodedText = await tokenizer.decode([selectedIndex]);
-      console.log('Decoded text:', decodedText);
-      
-      // For chat models, return just the generated text, not the input + output
-      const response = decodedText;
-      console.log('Generated response:', response);
-      return response;
-      
-    } catch (error) {
-      console.error('Error generating response:', error);
-      // Fallback to a basic response if inference fails
-      return `Echo: ${message} (inference failed, using fallback)`;
+    if (!this.ort) {
+      throw new Error('ONNX runtime not initialized');
     }
+
+    return { session, tokenizer, geometry, contextLength, ort: this.ort };
   }
   
   async unloadModel(modelId: string): Promise<void> {
+    await this.sessions.get(modelId)?.session.release();
     this.sessions.delete(modelId);
+    this.tokenizers.delete(modelId);
+    this.geometries.delete(modelId);
+    this.contextLengths.delete(modelId);
     console.log(`Unloaded model: ${modelId}`);
   }
   
   isModelLoaded(modelId: string): boolean {
     return this.sessions.has(modelId);
   }
+
+  getLoadedModels(): string[] {
+    return Array.from(this.sessions.keys());
+  }
   
-  getAvailableProviders(): string[] {
-    return ['wasm']; // Only WASM is guaranteed in worker context
+  // What this worker's context exposes; WASM is always there
+  getAvailableProviders(): ExecutionProvider[] {
+    const providers: ExecutionProvider[] = [];
+    if (typeof navigator !== 'undefined' && 'ml' in navigator) providers.push('webnn');
+    if (typeof navigator !== 'undefined' && 'gpu' in navigator) providers.push('webgpu');
+    providers.push('wasm');
+    return providers;
   }
   
-  getCurrentProvider(): string | null {
-    return 'wasm';
+  // Provider the model's session actually runs on
+  getModelProvider(modelId: string | null): string | null {
+    return (modelId && this.sessions.get(modelId)?.provider) || null;
+  }
+
+  getModelProviders(): Record<string, string> {
+    return Object.fromEntries(Array.from(this.sessions, ([modelId, session]) => [modelId, session.provider]));
   }
 }
 
 class ONNXWorker {
   private onnxProvider: WorkerONNXProvider;
   private currentModel: string | null = null;
+  // In-flight inference requests and downloads by message id, so `abort` can stop them
+  private inflight = new Map<string, AbortController>();
 
   constructor() {
     console.log('ONNX Worker initialized');
@@ -391,13 +486,43 @@ class ONNXWorker {
           return await this.loadModel(message.payload);
           
         case 'inference':
-          return await this.runInference(message.payload);
+          return await this.runInference(message.payload, message.id);
+
+        case 'abort':
+          return this.abortInference(message.payload?.id);
+
+        case 'countTokens':
+          return {
+            type: 'success',
+            payload: await this.onnxProvider.countTokens(message.payload.modelId ?? this.currentModel, message.payload.input)
+          };
           
+        case 'probeWebNN':
+          return await this.probeWebNN();
+
+        case 'benchmark':
+          return {
+            type: 'success',
+            payload: await this.onnxProvider.benchmark(
+              message.payload.config.modelId,
+              message.payload.config,
+              message.payload.runtime,
+              message.payload.prompt,
+              message.payload.maxTokens
+            )
+          };
+
         case 'unloadModel':
           return await this.unloadModel(message.payload);
           
         case 'status':
           return this.getStatus();
+
+        case 'downloadModel':
+          return await this.downloadModel(message.payload, message.id);
+
+        case 'migrateStorage':
+          return await this.migrateStorage(message.payload, message.id);
           
         default:
           throw new Error(`Unknown message type: ${message.type}`);
@@ -411,12 +536,13 @@ class ONNXWorker {
     }
   }
 
-  private async loadModel(config: ModelConfig): Promise<WorkerResponse> {
+  private async loadModel(payload: { config: ModelConfig; runtime?: RuntimeOptions }): Promise<WorkerResponse> {
+    const { config, runtime } = payload;
     console.log('Loading model:', config.modelId);
     
     try {
       // Use ONNXProvider to load the model
-      const success = await this.onnxProvider.loadModel(config.modelId, config);
+      const success = await this.onnxProvider.loadModel(config.modelId, config, runtime);
       
       if (!success) {
         throw new Error(`Failed to load model ${config.modelId}`);
@@ -429,7 +555,8 @@ class ONNXWorker {
         type: 'success',
         payload: {
           modelId: config.modelId,
-          loaded: true
+          loaded: true,
+          provider: this.onnxProvider.getModelProvider(config.modelId)
         }
       };
       
@@ -439,27 +566,51 @@ class ONNXWorker {
     }
   }
 
-  private async runInference(payload: { input: string; options?: any }): Promise<WorkerResponse> {
+  // `modelId` picks one of the loaded models; the most recently loaded one is used otherwise
+  private async runInference(payload: { input: GenerationInput; modelId?: string; options?: GenerationOptions }, id?: string): Promise<WorkerResponse> {
     console.log('Running inference with input:', payload.input);
     
-    if (!this.currentModel) {
+    const modelId = payload.modelId ?? this.currentModel;
+    if (!modelId) {
       throw new Error('No model loaded');
     }
     
+    const controller = new AbortController();
+    if (id) this.inflight.set(id, controller);
     try {
       // Use ONNXProvider to generate response
-      const response = await this.onnxProvider.generateResponse(this.currentModel, payload.input, payload.options);
+      // Stream each decoded piece as a progress message tagged with the request id
+      const result = await this.onnxProvider.generateResponse(
+        modelId,
+        payload.input,
+        payload.options,
+        (token, text) => self.postMessage({ type: 'progress', payload: { token, text }, id } satisfies WorkerResponse),
+        controller.signal
+      );
       
       return {
         type: 'success',
-        payload: { response }
+        payload: { response: result.text, finishReason: result.finishReason, tokenCount: result.tokenCount, context: result.context },
+        id
       };
     } catch (error) {
       console.error('Inference error:', error);
       throw error;
+    } finally {
+      if (id) this.inflight.delete(id);
     }
   }
 
+  // An aborted inference still answers, with the partial text and a `cancelled` finish reason; an aborted download fails
+  private abortInference(id?: string): WorkerResponse {
+    const controller = id ? this.inflight.get(id) : undefined;
+    controller?.abort();
+    return {
+      type: 'success',
+      payload: { id, aborted: Boolean(controller) }
+    };
+  }
+
   private async unloadModel(modelId: string): Promise<WorkerResponse> {
     console.log('Unloading model:', modelId);
     
@@ -480,14 +631,61 @@ class ONNXWorker {
     }
   }
 
+  /**
+   * Downloads run here rather than in the service worker, since only a dedicated worker can write OPFS
+   * chunks through sync access handles. Files already stored are skipped, partial ones resume.
+   * `backend` is the setting, which this worker cannot read from chrome.storage
+   */
+  private async downloadModel(payload: { config: ModelConfig; backend: StorageBackendKind }, id?: string): Promise<WorkerResponse> {
+    const { OnnxModelFetch, hasModelFiles } = await import('../core/utils/model.list');
+    const { config, backend } = payload;
+    if (await hasModelFiles(config)) {
+      return { type: 'success', payload: { modelId: config.modelId } };
+    }
+    const controller = new AbortController();
+    if (id) this.inflight.set(id, controller);
+    try {
+      await OnnxModelFetch(
+        config,
+        (info) => self.postMessage({ type: 'progress', payload: info, id } satisfies WorkerResponse),
+        controller.signal,
+        backend
+      );
+      return { type: 'success', payload: { modelId: config.modelId } };
+    } finally {
+      if (id) this.inflight.delete(id);
+    }
+  }
+
+  // Copies chunks into `backend`, which for OPFS needs this worker's sync access handles
+  private async migrateStorage(payload: { backend: StorageBackendKind }, id?: string): Promise<WorkerResponse> {
+    const { migrateStoredModels } = await import('../core/utils/fetchchunkstore');
+    const migrated = await migrateStoredModels(payload.backend, (modelId, moved, total) => {
+      self.postMessage({ type: 'progress', payload: { modelId, moved, total }, id } satisfies WorkerResponse);
+    });
+    return { type: 'success', payload: { migrated } };
+  }
+
+  // The service worker has no WebNN, so device probing happens here; no results when this context lacks it too
+  private async probeWebNN(): Promise<WorkerResponse> {
+    const { WebNNUtils } = await import('../core/utils/webnn-utils');
+    const webnn = WebNNUtils.getInstance();
+    return {
+      type: 'success',
+      payload: webnn.isWebNNAvailable() ? await webnn.probeDevices() : []
+    };
+  }
+
   private getStatus(): WorkerResponse {
     return {
       type: 'success',
       payload: {
         currentModel: this.currentModel,
+        loadedModels: this.onnxProvider.getLoadedModels(),
         isModelLoaded: this.onnxProvider.isModelLoaded(this.currentModel || ''),
         availableProviders: this.onnxProvider.getAvailableProviders(),
-        currentProvider: this.onnxProvider.getCurrentProvider()
+        currentProvider: this.onnxProvider.getModelProvider(this.currentModel),
+        modelProviders: this.onnxProvider.getModelProviders()
       }
     };
   }
@@ -501,7 +699,7 @@ const onnxWorker = new ONNXWorker();
 // Handle messages from main thread
 self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
   const response = await onnxWorker.handleMessage(event.data);
-  self.postMessage(response);
+  self.postMessage({ ...response, id: response.id ?? event.data.id });
 };
 
 // Handle worker errors
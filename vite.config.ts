@@ -58,9 +58,10 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: resolve(__dirname, 'src/popup/index.html'),
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
         background: resolve(__dirname, 'src/background/sw.ts'),
         content: resolve(__dirname, 'src/content/index.ts'),
-        api: resolve(__dirname, 'src/api.js'),
+        api: resolve(__dirname, 'src/api.ts'),
         'onnx-worker': resolve(__dirname, 'src/workers/onnx-worker.ts')
       },
       output: {